@@ -1,11 +1,13 @@
 import { useState } from 'react'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
-import { useAccount } from 'wagmi'
+import { useAccount, useReadContract } from 'wagmi'
 import KYCSubmissionForm from './components/KYCSubmissionForm'
 import UnifiedVerifyPanel from './components/UnifiedVerifyPanel'
 import UserDashboard from './components/UserDashboard'
 import Project from './components/Project'
-import { initFHE } from './config/fhe'
+import { initFHE, PAUSABLE_FUNCTIONS, PAUSE_POLL_INTERVAL_MS } from './config/fhe'
+import { SecureKYCABI } from './contracts/SecureKYC'
+import { CONTRACT_ADDRESS } from './config/wagmi'
 import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
 import './App.css'
 
@@ -15,6 +17,61 @@ function App() {
   const [activeTab, setActiveTab] = useState<'submit' | 'verify' | 'dashboard' | 'project'>('submit')
   const [isInitializingFHE, setIsInitializingFHE] = useState(false)
 
+  // The admin can halt the contract, or single functions, while an incident is handled
+  const pauseQuery = { enabled: isConnected, refetchInterval: PAUSE_POLL_INTERVAL_MS }
+  const { data: isContractPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'paused',
+    query: pauseQuery
+  })
+  const { data: isSubmitPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'isPaused',
+    args: [PAUSABLE_FUNCTIONS.SUBMIT],
+    query: pauseQuery
+  })
+  const { data: isAssignPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'isPaused',
+    args: [PAUSABLE_FUNCTIONS.ASSIGN_VERIFIER],
+    query: pauseQuery
+  })
+  const { data: isVerifyPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'isPaused',
+    args: [PAUSABLE_FUNCTIONS.VERIFY],
+    query: pauseQuery
+  })
+  const { data: isEligibilityPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'isPaused',
+    args: [PAUSABLE_FUNCTIONS.CHECK_ELIGIBILITY],
+    query: pauseQuery
+  })
+  const { data: isProofPaused } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'isPaused',
+    args: [PAUSABLE_FUNCTIONS.GENERATE_PROOF],
+    query: pauseQuery
+  })
+  const pausedTabs = { submit: !!isSubmitPaused, verify: !!isVerifyPaused, dashboard: false, project: !!isEligibilityPaused }
+  // Fall back to the dashboard when the selected tab gets paused
+  const currentTab = pausedTabs[activeTab] ? 'dashboard' : activeTab
+  // Paused actions are also disabled where they appear outside the paused tabs, e.g. proof generation in the dashboard
+  const pausedActions = [
+    isSubmitPaused && 'KYC submissions',
+    isAssignPaused && 'verifier assignment',
+    isVerifyPaused && 'verification, rejection and attribute updates',
+    isEligibilityPaused && 'eligibility checks',
+    isProofPaused && 'proof generation'
+  ].filter(Boolean)
+
   const handleInitFHE = async () => {
     setIsInitializingFHE(true)
     try {
@@ -82,29 +139,44 @@ function App() {
       {isConnected && (
         <main className="max-w-7xl mx-auto py-4 sm:px-6 lg:px-8">
           <div className="px-4 py-4 sm:px-0">
+            {pausedActions.length > 0 && (
+              <div className="alert-tech alert-tech-warning mb-6 slide-in-up">
+                <h3 className="font-semibold mb-1 text-sm">
+                  {isContractPaused ? 'CONTRACT PAUSED' : 'SOME FUNCTIONS PAUSED'}
+                </h3>
+                <p className="text-xs opacity-90">
+                  The administrator has halted {pausedActions.join(', ')}. The affected tabs and actions are disabled
+                  until they resume; your dashboard remains available.
+                </p>
+              </div>
+            )}
+
             {/* Tab Navigation */}
             <div className="nav-tech mb-6 slide-in-up glow-cyan">
               <button
                 onClick={() => setActiveTab('submit')}
-                className={`tab-tech ${activeTab === 'submit' ? 'active' : ''}`}
+                disabled={pausedTabs.submit}
+                className={`tab-tech ${currentTab === 'submit' ? 'active' : ''} ${pausedTabs.submit ? 'opacity-40 cursor-not-allowed' : ''}`}
               >
                 <span>SUBMIT</span>
               </button>
               <button
                 onClick={() => setActiveTab('verify')}
-                className={`tab-tech ${activeTab === 'verify' ? 'active' : ''}`}
+                disabled={pausedTabs.verify}
+                className={`tab-tech ${currentTab === 'verify' ? 'active' : ''} ${pausedTabs.verify ? 'opacity-40 cursor-not-allowed' : ''}`}
               >
                 <span>VERIFY</span>
               </button>
               <button
                 onClick={() => setActiveTab('dashboard')}
-                className={`tab-tech ${activeTab === 'dashboard' ? 'active' : ''}`}
+                className={`tab-tech ${currentTab === 'dashboard' ? 'active' : ''}`}
               >
                 <span>DASHBOARD</span>
               </button>
               <button
                 onClick={() => setActiveTab('project')}
-                className={`tab-tech ${activeTab === 'project' ? 'active' : ''}`}
+                disabled={pausedTabs.project}
+                className={`tab-tech ${currentTab === 'project' ? 'active' : ''} ${pausedTabs.project ? 'opacity-40 cursor-not-allowed' : ''}`}
               >
                 <span>PROJECT</span>
               </button>
@@ -112,10 +184,10 @@ function App() {
 
             {/* Tab Content */}
             <div className="slide-in-up">
-              {activeTab === 'submit' && (
+              {currentTab === 'submit' && (
                 <div className="space-y-6">
                   {fheInstance ? (
-                    <KYCSubmissionForm fheInstance={fheInstance} userAddress={address} />
+                    <KYCSubmissionForm fheInstance={fheInstance} userAddress={address} isPaused={!!isSubmitPaused} />
                   ) : (
                     <div className="card-tech p-6 text-center">
                       <p className="text-gray-300 text-sm">INITIALIZE FHE TO ACCESS SECURE SUBMISSION</p>
@@ -123,21 +195,27 @@ function App() {
                   )}
                 </div>
               )}
-              {activeTab === 'verify' && (
-                <UnifiedVerifyPanel userAddress={address} />
+              {currentTab === 'verify' && (
+                <UnifiedVerifyPanel fheInstance={fheInstance} userAddress={address} isVerifyPaused={!!isVerifyPaused} />
               )}
-              {activeTab === 'dashboard' && (
+              {currentTab === 'dashboard' && (
                 fheInstance ? (
-                  <UserDashboard fheInstance={fheInstance} userAddress={address} />
+                  <UserDashboard
+                    fheInstance={fheInstance}
+                    userAddress={address}
+                    isSubmitPaused={!!isSubmitPaused}
+                    isAssignPaused={!!isAssignPaused}
+                    isProofPaused={!!isProofPaused}
+                  />
                 ) : (
                   <div className="card-tech p-6 text-center">
                     <p className="text-gray-300 text-sm">INITIALIZE FHE TO ACCESS DASHBOARD</p>
                   </div>
                 )
               )}
-              {activeTab === 'project' && (
+              {currentTab === 'project' && (
                 fheInstance ? (
-                  <Project fheInstance={fheInstance} />
+                  <Project fheInstance={fheInstance} isEligibilityPaused={!!isEligibilityPaused} />
                 ) : (
                   <div className="card-tech p-6 text-center">
                     <p className="text-gray-300 text-sm">INITIALIZE FHE TO ACCESS PROJECT FEATURES</p>
@@ -0,0 +1,289 @@
+import { useState } from 'react'
+import { useAccount, useWalletClient, usePublicClient } from 'wagmi'
+import { getAddress, isAddress, parseEventLogs } from 'viem'
+import { SecureKYCABI } from '../contracts/SecureKYC'
+import { CONTRACT_ADDRESS } from '../config/wagmi'
+import { ELIGIBILITY_SKIP_REASONS } from '../config/fhe'
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
+
+interface BulkEligibilityCheckProps {
+  fheInstance: FhevmInstance
+  isPaused: boolean
+}
+
+interface BulkResult {
+  user: string
+  result: string
+}
+
+// Users per checkEligibilityBatch transaction, halved while the gas estimate exceeds the limit
+const CHUNK_SIZE = 20
+const BATCH_GAS_LIMIT = 15_000_000n
+
+// A user decryption request holds at most 2048 encrypted bits and an ebool counts as 2
+const MAX_DECRYPT_HANDLES = 1024
+
+// Read the first column of a CSV file, skipping blank lines, comments and an "address" header
+const parseAddressCsv = (content: string): string[] => {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.split(',')[0].trim())
+    .filter(cell => cell && !cell.startsWith('#') && !/^address$/i.test(cell))
+}
+
+export default function BulkEligibilityCheck({ fheInstance, isPaused }: BulkEligibilityCheckProps) {
+  const [fileName, setFileName] = useState('')
+  const [users, setUsers] = useState<string[]>([])
+  const [results, setResults] = useState<BulkResult[]>([])
+  const [progress, setProgress] = useState('')
+  const [isRunning, setIsRunning] = useState(false)
+
+  const { address } = useAccount()
+  const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient()
+
+  const eligibleCount = results.filter(row => row.result === 'eligible').length
+  const ineligibleCount = results.filter(row => row.result === 'ineligible').length
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setResults([])
+    setProgress('')
+    if (!file) {
+      setFileName('')
+      setUsers([])
+      return
+    }
+    setFileName(file.name)
+    setUsers(parseAddressCsv(await file.text()))
+  }
+
+  // Send one checkEligibilityBatch transaction and record which users were checked or skipped
+  const runChunk = async (chunk: `0x${string}`[], checked: `0x${string}`[], skipped: Map<string, string>) => {
+    if (!publicClient || !walletClient || !address) return
+
+    const hash = await walletClient.writeContract({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'checkEligibilityBatch',
+      args: [chunk]
+    })
+    const receipt = await publicClient.waitForTransactionReceipt({ hash })
+
+    const events = parseEventLogs({
+      abi: SecureKYCABI,
+      logs: receipt.logs,
+      eventName: ['EligibilityCheckPerformed', 'EligibilityCheckSkipped']
+    })
+    for (const event of events) {
+      if (event.eventName === 'EligibilityCheckPerformed') {
+        checked.push(event.args.user)
+      } else {
+        skipped.set(event.args.user, ELIGIBILITY_SKIP_REASONS[event.args.reason] ?? `Reason ${event.args.reason}`)
+      }
+    }
+  }
+
+  // Decrypt every stored result with a single user decryption signature
+  const decryptResults = async (checked: `0x${string}`[]): Promise<Record<string, boolean>> => {
+    if (!publicClient || !walletClient || !address) return {}
+
+    const handles: Record<string, string> = {}
+    for (const user of checked) {
+      handles[user] = await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: SecureKYCABI,
+        functionName: 'getCheckEligibilityResult',
+        args: [address, user],
+      }) as string
+    }
+
+    const keypair = fheInstance.generateKeypair()
+    const startTimeStamp = Math.floor(Date.now() / 1000).toString()
+    const durationDays = "1"
+    const contractAddresses = [CONTRACT_ADDRESS]
+
+    const eip712 = fheInstance.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimeStamp,
+      durationDays
+    )
+
+    const signature = await walletClient.signTypedData({
+      domain: {
+        name: eip712.domain.name,
+        version: eip712.domain.version,
+        chainId: eip712.domain.chainId,
+        verifyingContract: eip712.domain.verifyingContract as `0x${string}`,
+      },
+      types: {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      primaryType: 'UserDecryptRequestVerification',
+      message: eip712.message,
+    })
+
+    const uniqueHandles = [...new Set(Object.values(handles))]
+    const decrypted: Record<string, unknown> = {}
+    for (let start = 0; start < uniqueHandles.length; start += MAX_DECRYPT_HANDLES) {
+      setProgress(`Decrypting results ${start + 1}-${Math.min(start + MAX_DECRYPT_HANDLES, uniqueHandles.length)} of ${uniqueHandles.length}...`)
+      const handleContractPairs = uniqueHandles.slice(start, start + MAX_DECRYPT_HANDLES).map(handle => ({
+        handle,
+        contractAddress: CONTRACT_ADDRESS,
+      }))
+      Object.assign(decrypted, await fheInstance.userDecrypt(
+        handleContractPairs,
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace("0x", ""),
+        contractAddresses,
+        address,
+        startTimeStamp,
+        durationDays,
+      ))
+    }
+
+    return Object.fromEntries(checked.map(user => [user, decrypted[handles[user]] as boolean]))
+  }
+
+  const handleRun = async () => {
+    if (!publicClient || !walletClient || !address || users.length === 0) return
+
+    setIsRunning(true)
+    setResults([])
+
+    const valid = [...new Set(users.filter(user => isAddress(user)).map(user => getAddress(user)))]
+    const failed = new Map<string, string>(users.filter(user => !isAddress(user)).map(user => [user, 'Invalid address']))
+    const checked: `0x${string}`[] = []
+    const skipped = new Map<string, string>()
+
+    const estimateChunkGas = (chunk: `0x${string}`[]) => publicClient.estimateContractGas({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'checkEligibilityBatch',
+      args: [chunk],
+      account: address
+    }).catch(() => null)
+
+    try {
+      for (let start = 0; start < valid.length; ) {
+        let chunk = valid.slice(start, start + CHUNK_SIZE)
+        let gas = await estimateChunkGas(chunk)
+        while ((gas === null || gas > BATCH_GAS_LIMIT) && chunk.length > 1) {
+          chunk = chunk.slice(0, Math.ceil(chunk.length / 2))
+          gas = await estimateChunkGas(chunk)
+        }
+        start += chunk.length
+
+        if (gas === null || gas > BATCH_GAS_LIMIT) {
+          failed.set(chunk[0], 'Check could not be estimated')
+          continue
+        }
+
+        setProgress(`Checking users ${start - chunk.length + 1}-${start} of ${valid.length}...`)
+        await runChunk(chunk, checked, skipped)
+      }
+
+      const eligibility = checked.length > 0 ? await decryptResults(checked) : {}
+
+      // Contract events report checksummed addresses
+      setResults(users.map(user => {
+        const key = isAddress(user) ? getAddress(user) : user
+        if (key in eligibility) {
+          return { user, result: eligibility[key] ? 'eligible' : 'ineligible' }
+        }
+        if (skipped.has(key)) {
+          return { user, result: `skipped (${skipped.get(key)})` }
+        }
+        return { user, result: `failed (${failed.get(key) ?? 'Not checked'})` }
+      }))
+      setProgress('')
+    } catch (error) {
+      console.error('Error running bulk eligibility check:', error)
+      alert('Bulk eligibility check failed. Users checked so far keep their stored results; please try again.')
+      setProgress('')
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleDownload = () => {
+    const csv = ['address,result', ...results.map(row => `${row.user},${row.result}`)].join('\n') + '\n'
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'eligibility-results.csv'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="card-tech p-6 border-cyan-500/30">
+      <h3 className="text-lg font-semibold text-white mb-2">BULK ELIGIBILITY CHECK</h3>
+      <p className="text-xs text-gray-400 mb-6">
+        Upload a CSV with one user address per line (airdrop or allowlist candidates). Users are checked in batches of up to {CHUNK_SIZE} per
+        transaction, then every result is decrypted with a single signature.
+      </p>
+
+      <div className="form-tech">
+        <label htmlFor="eligibilityCsv" className="form-label-tech">
+          ADDRESS LIST (CSV)
+        </label>
+        <input
+          type="file"
+          id="eligibilityCsv"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          disabled={isRunning}
+          className="form-input-tech"
+        />
+        {fileName && (
+          <p className="text-xs text-gray-400 mt-1">
+            {fileName}: {users.length} addresses
+          </p>
+        )}
+      </div>
+
+      <button
+        onClick={handleRun}
+        disabled={isPaused || isRunning || users.length === 0 || !walletClient}
+        className="btn-tech w-full glow-cyan mt-4"
+      >
+        {isRunning ? (
+          <div className="flex items-center justify-center">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
+            <span>{progress || 'PROCESSING...'}</span>
+          </div>
+        ) : isPaused ? (
+          <span>ELIGIBILITY CHECKS PAUSED</span>
+        ) : (
+          <span>CHECK ALL USERS</span>
+        )}
+      </button>
+
+      {results.length > 0 && (
+        <div className="mt-6 border border-gray-600/30 rounded-lg p-4 bg-gray-800/30 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-300">Eligible:</span>
+            <span className="text-xs text-green-400">{eligibleCount}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-300">Not eligible:</span>
+            <span className="text-xs text-red-400">{ineligibleCount}</span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-xs text-gray-300">Skipped or failed:</span>
+            <span className="text-xs text-yellow-400">{results.length - eligibleCount - ineligibleCount}</span>
+          </div>
+          <button
+            onClick={handleDownload}
+            className="btn-tech text-sm px-4 py-2 mt-2"
+          >
+            DOWNLOAD RESULTS CSV
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
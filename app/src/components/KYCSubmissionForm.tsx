@@ -2,33 +2,43 @@ import { useState } from 'react'
 import { useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { SecureKYCABI } from '../contracts/SecureKYC'
 import { CONTRACT_ADDRESS } from '../config/wagmi'
-import { converZamaHex, COUNTRY_CODES, type CountryCode } from '../config/fhe'
-import { passportToAddress } from '../utils/passportUtils'
+import { converZamaHex, COUNTRY_CODES, DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS, type CountryCode, type DocumentType } from '../config/fhe'
+import { documentNumberToAddress } from '../utils/passportUtils'
+import { packDate } from '../utils/dateUtils'
 import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
 
 interface KYCSubmissionFormProps {
   fheInstance: FhevmInstance
   userAddress: `0x${string}` | undefined
+  isResubmission?: boolean
+  isPaused?: boolean
 }
 
-export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmissionFormProps) {
-  const [passportNumber, setPassportNumber] = useState('')
-  const [birthYear, setBirthYear] = useState('')
+export default function KYCSubmissionForm({ fheInstance, userAddress, isResubmission = false, isPaused = false }: KYCSubmissionFormProps) {
+  const [documentType, setDocumentType] = useState<DocumentType>(DOCUMENT_TYPES.PASSPORT)
+  const [documentNumber, setDocumentNumber] = useState('')
+  const [documentExpiry, setDocumentExpiry] = useState('')
+  const [dateOfBirth, setDateOfBirth] = useState('')
   const [country, setCountry] = useState<CountryCode>('US')
   const [isSubmitting, setIsSubmitting] = useState(false)
   
-  // Generate passport address for display
-  const passportAddress = passportNumber ? passportToAddress(passportNumber) : null
+  // Generate document address for display; the number is normalized per document type
+  let documentAddress: `0x${string}` | null = null
+  let documentError: string | null = null
+  if (documentNumber) {
+    try {
+      documentAddress = documentNumberToAddress(documentType, documentNumber)
+    } catch (error) {
+      documentError = (error as Error).message
+    }
+  }
 
   // Debug logs for component state
   console.log('KYCSubmissionForm render state:', {
-    passportNumber,
-    birthYear,
     country,
     isSubmitting,
     userAddress,
-    fheInstance: !!fheInstance,
-    passportAddress
+    fheInstance: !!fheInstance
   })
 
   const { writeContract, data: hash } = useWriteContract()
@@ -51,8 +61,6 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
     console.log('Checking prerequisites...')
     console.log('userAddress:', userAddress)
     console.log('fheInstance:', fheInstance)
-    console.log('passportNumber:', passportNumber)
-    console.log('birthYear:', birthYear)
     console.log('country:', country)
     
     if (!userAddress || !fheInstance) {
@@ -69,18 +77,19 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
       const input = fheInstance.createEncryptedInput(CONTRACT_ADDRESS, userAddress)
       console.log('Input buffer created:', input)
       
-      // Convert passport number to EVM address
-      console.log('Converting passport to address...')
-      const passportAddress = passportToAddress(passportNumber)
-      console.log('Generated passport address:', passportAddress)
+      // Convert document number to EVM address
+      console.log('Converting document number to address...')
+      const documentAddress = documentNumberToAddress(documentType, documentNumber)
       
       // Add encrypted data
       console.log('Adding data to input buffer...')
-      console.log('Adding address:', passportAddress)
-      input.addAddress(passportAddress)
+      input.add8(BigInt(documentType))
+
+      input.addAddress(documentAddress)
+
+      input.add32(packDate(documentExpiry))
       
-      console.log('Adding birthYear as uint32:', BigInt(birthYear))
-      input.add32(BigInt(birthYear))
+      input.add32(packDate(dateOfBirth))
       
       console.log('Adding country code:', COUNTRY_CODES[country])
       input.add8(BigInt(COUNTRY_CODES[country]))
@@ -99,6 +108,8 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
         encryptedInput.handles[0],
         encryptedInput.handles[1], 
         encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.handles[4],
         encryptedInput.inputProof
       ])
 
@@ -109,9 +120,11 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
         abi: SecureKYCABI,
         functionName: 'submitKYC',
         args: [
-        converZamaHex(encryptedInput.handles[0]), // passportAddress
-          converZamaHex(encryptedInput.handles[1]), // birthYear
-         converZamaHex(encryptedInput.handles[2]), // countryCode
+          converZamaHex(encryptedInput.handles[0]), // documentType
+          converZamaHex(encryptedInput.handles[1]), // documentNumber
+          converZamaHex(encryptedInput.handles[2]), // documentExpiry
+          converZamaHex(encryptedInput.handles[3]), // dateOfBirth
+          converZamaHex(encryptedInput.handles[4]), // countryCode
           converZamaHex(encryptedInput.inputProof )
         ]
       })
@@ -155,7 +168,7 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
     <div className="card-tech p-6 slide-in-up glow-cyan">
       <div className="flex items-center space-x-3 mb-6">
         <div>
-          <h2 className="text-lg font-bold text-white mb-2">KYC DATA SUBMISSION</h2>
+          <h2 className="text-lg font-bold text-white mb-2">{isResubmission ? 'KYC DATA RESUBMISSION' : 'KYC DATA SUBMISSION'}</h2>
           <p className="text-cyan-400 text-xs">SECURE IDENTITY VERIFICATION PROTOCOL</p>
         </div>
       </div>
@@ -174,43 +187,82 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
 
       <form onSubmit={handleSubmit} className="space-y-4">
         <div className="form-tech">
-          <label htmlFor="passportNumber" className="form-label-tech">
-            PASSPORT IDENTIFIER
+          <label htmlFor="documentType" className="form-label-tech">
+            DOCUMENT TYPE
+          </label>
+          <select
+            id="documentType"
+            value={documentType}
+            onChange={(e) => setDocumentType(Number(e.target.value) as DocumentType)}
+            required
+            className="form-input-tech"
+          >
+            {Object.values(DOCUMENT_TYPES).map((type) => (
+              <option key={type} value={type}>
+                {DOCUMENT_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-tech">
+          <label htmlFor="documentNumber" className="form-label-tech">
+            DOCUMENT IDENTIFIER
           </label>
           <input
             type="text"
-            id="passportNumber"
-            value={passportNumber}
-            onChange={(e) => setPassportNumber(e.target.value)}
+            id="documentNumber"
+            value={documentNumber}
+            onChange={(e) => setDocumentNumber(e.target.value)}
             required
             className="form-input-tech"
             placeholder="ENTER DOCUMENT IDENTIFIER"
           />
-          {passportAddress && (
+          {documentError && (
+            <p className="mt-2 text-xs text-red-400">{documentError}</p>
+          )}
+          {documentAddress && (
             <div className="mt-2 p-2 bg-gray-800 rounded border border-cyan-500/30">
               <div className="text-xs text-cyan-400 mb-1">GENERATED ADDRESS:</div>
-              <div className="text-xs text-gray-300 font-mono break-all">{passportAddress}</div>
+              <div className="text-xs text-gray-300 font-mono break-all">{documentAddress}</div>
               <div className="text-xs text-gray-500 mt-1">
-                Your passport number will be converted to this address and encrypted before storage
+                Your document number will be converted to this address and encrypted before storage
               </div>
             </div>
           )}
         </div>
 
         <div className="form-tech">
-          <label htmlFor="birthYear" className="form-label-tech">
-            BIRTH YEAR
+          <label htmlFor="documentExpiry" className="form-label-tech">
+            DOCUMENT EXPIRY DATE
+          </label>
+          <input
+            type="date"
+            id="documentExpiry"
+            value={documentExpiry}
+            onChange={(e) => setDocumentExpiry(e.target.value)}
+            required
+            min={new Date().toISOString().slice(0, 10)}
+            className="form-input-tech"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            Projects stop accepting your KYC once this document expires
+          </p>
+        </div>
+
+        <div className="form-tech">
+          <label htmlFor="dateOfBirth" className="form-label-tech">
+            DATE OF BIRTH
           </label>
           <input
-            type="number"
-            id="birthYear"
-            value={birthYear}
-            onChange={(e) => setBirthYear(e.target.value)}
+            type="date"
+            id="dateOfBirth"
+            value={dateOfBirth}
+            onChange={(e) => setDateOfBirth(e.target.value)}
             required
-            min="1900"
-            max={new Date().getFullYear()}
+            min="1900-01-01"
+            max={new Date().toISOString().slice(0, 10)}
             className="form-input-tech"
-            placeholder="YYYY"
           />
         </div>
 
@@ -236,17 +288,18 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
         <div className="mt-6">
           <button
             type="submit"
-            disabled={isSubmitting || isConfirming || !passportNumber || !birthYear}
+            disabled={isPaused || isSubmitting || isConfirming || !documentAddress || !documentExpiry || !dateOfBirth}
             className="btn-tech w-full glow-cyan pulse-glow"
             style={{ width: '100%' }}
             onClick={(_) => {
               console.log('Button clicked!')
-              console.log('Button disabled?', isSubmitting || isConfirming || !passportNumber || !birthYear)
+              console.log('Button disabled?', isSubmitting || isConfirming || !documentAddress || !documentExpiry || !dateOfBirth)
               console.log('Disabled reasons:', {
                 isSubmitting,
                 isConfirming,
-                noPassportNumber: !passportNumber,
-                noBirthYear: !birthYear
+                noDocumentNumber: !documentAddress,
+                noDocumentExpiry: !documentExpiry,
+                noDateOfBirth: !dateOfBirth
               })
             }}
           >
@@ -255,6 +308,8 @@ export default function KYCSubmissionForm({ fheInstance, userAddress }: KYCSubmi
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
                 <span>{isSubmitting ? 'ENCRYPTING & TRANSMITTING...' : 'CONFIRMING ON BLOCKCHAIN...'}</span>
               </div>
+            ) : isPaused ? (
+              <span>SUBMISSIONS PAUSED</span>
             ) : (
               <span>INITIATE SECURE TRANSMISSION</span>
             )}
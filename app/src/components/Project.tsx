@@ -1,19 +1,25 @@
 import { useState, useEffect } from 'react'
-import { useAccount, useWalletClient, useWriteContract, useWaitForTransactionReceipt, usePublicClient } from 'wagmi'
+import { useAccount, useWalletClient, useWriteContract, useWaitForTransactionReceipt, usePublicClient, useReadContract } from 'wagmi'
 import { SecureKYCABI } from '../contracts/SecureKYC'
 import { CONTRACT_ADDRESS } from '../config/wagmi'
-import { COUNTRY_CODES } from '../config/fhe'
+import {
+  INCOME_BAND_LABELS,
+  KYC_TIER_LABELS,
+  countryNamesFromMask,
+  documentTypeNamesFromMask,
+  type IncomeBand,
+  type KYCTier
+} from '../config/fhe'
+import BulkEligibilityCheck from './BulkEligibilityCheck'
 import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
 
 interface ProjectProps {
   fheInstance: FhevmInstance
+  isEligibilityPaused: boolean
 }
 
-export default function Project({ fheInstance }: ProjectProps) {
+export default function Project({ fheInstance, isEligibilityPaused }: ProjectProps) {
   const [userAddress, setUserAddress] = useState('')
-  const [minAge, setMinAge] = useState('')
-  const [requiresPassport, setRequiresPassport] = useState(false)
-  const [selectedCountries, setSelectedCountries] = useState<string[]>([])
   const [eligibilityResult, setEligibilityResult] = useState<boolean | null>(null)
   const [encryptedResult, setEncryptedResult] = useState<string | null>(null)
   const [isDecrypting, setIsDecrypting] = useState(false)
@@ -26,43 +32,52 @@ export default function Project({ fheInstance }: ProjectProps) {
     hash 
   })
 
-  const handleCountryToggle = (countryName: string) => {
-    setSelectedCountries(prev => {
-      if (prev.includes(countryName)) {
-        return prev.filter(country => country !== countryName)
-      } else {
-        return [...prev, countryName]
-      }
-    })
-  }
+  // The connected account is the project; its stored policy drives every check
+  const { data: projectPolicy } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getProjectRequirements',
+    args: address ? [address] : undefined,
+    query: { enabled: !!address }
+  })
+  const isPolicyActive = !!projectPolicy?.isActive
+  const policyCountries = countryNamesFromMask(projectPolicy?.allowedCountryMask ?? 0n)
+  const policyDocuments = projectPolicy?.acceptedDocumentTypes
+    ? documentTypeNamesFromMask(projectPolicy.acceptedDocumentTypes)
+    : ['Any']
+
+  // Users must consent before the project may check their eligibility
+  const isUserAddress = /^0x[a-fA-F0-9]{40}$/.test(userAddress)
+  const { data: hasUserConsent } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'hasConsent',
+    args: address && isUserAddress ? [userAddress as `0x${string}`, address] : undefined,
+    query: { enabled: !!address && isUserAddress }
+  })
 
   const handleCheckEligibility = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!userAddress || !minAge || selectedCountries.length === 0) {
+    if (!userAddress) {
       alert('Please fill in all required fields')
       return
     }
 
+    if (!isPolicyActive) {
+      alert('No active eligibility policy is registered for this project address')
+      return
+    }
+
     setEligibilityResult(null)
 
     try {
-      // Convert selected country names to country codes
-      const countryCodes = selectedCountries.map(countryName => 
-        COUNTRY_CODES[countryName as keyof typeof COUNTRY_CODES]
-      ).filter(Boolean)
-
-      if (countryCodes.length === 0) {
-        alert('Please select valid countries')
-        return
-      }
-      
       // Call the contract using writeContract
       writeContract({
         address: CONTRACT_ADDRESS,
         abi: SecureKYCABI,
         functionName: 'checkEligibility',
-        args: [userAddress as `0x${string}`, parseInt(minAge), countryCodes, requiresPassport]
+        args: [userAddress as `0x${string}`]
       })
       
     } catch (error) {
@@ -165,9 +180,6 @@ export default function Project({ fheInstance }: ProjectProps) {
 
   const resetForm = () => {
     setUserAddress('')
-    setMinAge('')
-    setSelectedCountries([])
-    setRequiresPassport(false)
     setEligibilityResult(null)
     setEncryptedResult(null)
   }
@@ -224,65 +236,70 @@ export default function Project({ fheInstance }: ProjectProps) {
             <p className="text-xs text-gray-400 mt-1">
               Enter the Ethereum address of the user to check eligibility
             </p>
+            {hasUserConsent === false && (
+              <p className="text-xs text-yellow-400 mt-1">
+                This user has not granted consent to your project. They can grant it from their dashboard.
+              </p>
+            )}
           </div>
 
-          {/* Minimum Age Input */}
-          <div className="form-tech">
-            <label htmlFor="minAge" className="form-label-tech">
-              MINIMUM AGE *
-            </label>
-            <input
-              type="number"
-              id="minAge"
-              value={minAge}
-              onChange={(e) => setMinAge(e.target.value)}
-              required
-              min="0"
-              max="150"
-              className="form-input-tech"
-              placeholder="18"
-            />
-            <p className="text-xs text-gray-400 mt-1">
-              Minimum age required for project participation
-            </p>
-          </div>
-
-          {/* Allowed Countries Selection */}
+          {/* Stored Project Policy */}
           <div className="form-tech">
             <label className="form-label-tech mb-3">
-              ALLOWED COUNTRIES *
+              PROJECT POLICY
             </label>
-            <div className="flex flex-wrap gap-2 max-h-60 overflow-y-auto border border-gray-600/30 rounded-lg p-4 bg-gray-800/30">
-              {Object.keys(COUNTRY_CODES).map((countryName) => (
-                <label key={countryName} className="flex items-center space-x-2 cursor-pointer whitespace-nowrap">
-                  <input
-                    type="checkbox"
-                    checked={selectedCountries.includes(countryName)}
-                    onChange={() => handleCountryToggle(countryName)}
-                    className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
-                  />
-                  <span className="text-sm text-white">{countryName}</span>
-                </label>
-              ))}
-            </div>
+            {isPolicyActive && projectPolicy ? (
+              <div className="border border-gray-600/30 rounded-lg p-4 bg-gray-800/30 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-300">Minimum Age Required:</span>
+                  <span className="text-xs text-white">{projectPolicy.minAge} years</span>
+                </div>
+                <div className="flex justify-between items-start">
+                  <span className="text-xs text-gray-300">Allowed Countries:</span>
+                  <span className="text-xs text-white text-right max-w-xs">{policyCountries.join(', ')}</span>
+                </div>
+                <div className="flex justify-between items-start">
+                  <span className="text-xs text-gray-300">Accepted Documents:</span>
+                  <span className="text-xs text-white text-right max-w-xs">{policyDocuments.join(', ')}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-300">Max Verification Age:</span>
+                  <span className="text-xs text-white">
+                    {projectPolicy.maxVerificationAge > 0n ? `${projectPolicy.maxVerificationAge / 86400n} days` : 'Global default'}
+                  </span>
+                </div>
+                <div className="flex justify-between items-start">
+                  <span className="text-xs text-gray-300">Minimum Tier:</span>
+                  <span className="text-xs text-white text-right max-w-xs">
+                    {projectPolicy.minTier > 0 ? KYC_TIER_LABELS[projectPolicy.minTier as KYCTier] : 'Any'}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-300">Accredited Only:</span>
+                  <span className="text-xs text-white">{projectPolicy.requireAccredited ? 'Yes' : 'No'}</span>
+                </div>
+                <div className="flex justify-between items-start">
+                  <span className="text-xs text-gray-300">Minimum Income Band:</span>
+                  <span className="text-xs text-white text-right max-w-xs">
+                    {projectPolicy.minIncomeBand > 0 ? INCOME_BAND_LABELS[projectPolicy.minIncomeBand as IncomeBand] : 'Any'}
+                  </span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-300">Max Risk Score:</span>
+                  <span className="text-xs text-white">{projectPolicy.maxRiskScore > 0 ? projectPolicy.maxRiskScore : 'No limit'}</span>
+                </div>
+                <div className="flex justify-between items-start">
+                  <span className="text-xs text-gray-300">Policy Hash:</span>
+                  <span className="text-xs font-mono text-cyan-400 break-all text-right max-w-xs">{projectPolicy.policyHash}</span>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-yellow-400">
+                No active policy is registered for {address}. Ask an authorized verifier to register one in the VERIFY tab.
+              </p>
+            )}
             <p className="text-xs text-gray-400 mt-2">
-              Selected: {selectedCountries.length} countries
-            </p>
-          </div>
-
-          {/* Requires Passport Checkbox */}
-          <div className="form-tech">
-            <label className="flex items-center space-x-3 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={requiresPassport}
-                onChange={(e) => setRequiresPassport(e.target.checked)}
-                className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
-              />
-              <span className="form-label-tech mb-0">REQUIRES PASSPORT VERIFICATION</span>
-            </label>
-            <p className="text-xs text-gray-400 mt-1">
-              Check if passport verification is mandatory for this project
+              Eligibility is evaluated on-chain against the policy registered for the connected project address
             </p>
           </div>
 
@@ -290,7 +307,9 @@ export default function Project({ fheInstance }: ProjectProps) {
           <div className="flex space-x-4">
             <button
               type="submit"
-              disabled={isPending || isConfirming || !userAddress || !minAge || selectedCountries.length === 0}
+              disabled={
+                isEligibilityPaused || isPending || isConfirming || !userAddress || !isPolicyActive || hasUserConsent === false
+              }
               className="btn-tech flex-1 glow-cyan pulse-glow"
             >
               {isPending || isConfirming ? (
@@ -298,6 +317,8 @@ export default function Project({ fheInstance }: ProjectProps) {
                   <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
                   <span>{isPending ? 'SUBMITTING...' : 'CONFIRMING...'}</span>
                 </div>
+              ) : isEligibilityPaused ? (
+                <span>ELIGIBILITY CHECKS PAUSED</span>
               ) : (
                 <span>CHECK ELIGIBILITY</span>
               )}
@@ -328,6 +349,9 @@ export default function Project({ fheInstance }: ProjectProps) {
         </div>
       </div>
 
+      {/* Bulk Eligibility Check */}
+      {isPolicyActive && <BulkEligibilityCheck fheInstance={fheInstance} isPaused={isEligibilityPaused} />}
+
       {/* Transaction Success Message */}
       {isConfirmed && (
         <div className="alert-tech alert-tech-success">
@@ -423,20 +447,18 @@ export default function Project({ fheInstance }: ProjectProps) {
                   </div>
                   <div className="flex justify-between items-center">
                     <span className="text-xs text-gray-300">Minimum Age Required:</span>
-                    <span className="text-xs text-white">{minAge} years</span>
+                    <span className="text-xs text-white">{projectPolicy?.minAge} years</span>
                   </div>
                   <div className="flex justify-between items-start">
                     <span className="text-xs text-gray-300">Allowed Countries:</span>
                     <div className="text-xs text-white text-right max-w-xs">
-                      {selectedCountries.slice(0, 5).join(', ')}
-                      {selectedCountries.length > 5 && ` +${selectedCountries.length - 5} more`}
+                      {policyCountries.slice(0, 5).join(', ')}
+                      {policyCountries.length > 5 && ` +${policyCountries.length - 5} more`}
                     </div>
                   </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-xs text-gray-300">Passport Required:</span>
-                    <span className={`text-xs ${requiresPassport ? 'text-green-400' : 'text-gray-400'}`}>
-                      {requiresPassport ? 'Yes' : 'No'}
-                    </span>
+                  <div className="flex justify-between items-start">
+                    <span className="text-xs text-gray-300">Accepted Documents:</span>
+                    <span className="text-xs text-white text-right max-w-xs">{policyDocuments.join(', ')}</span>
                   </div>
                 </div>
               </div>
@@ -444,8 +466,8 @@ export default function Project({ fheInstance }: ProjectProps) {
               {/* Verification Result */}
               <p className="text-sm opacity-90 leading-relaxed mb-4">
                 {eligibilityResult 
-                  ? 'The user meets all the specified project requirements and is eligible to participate.'
-                  : 'The user does not meet one or more of the specified project requirements and is not eligible to participate.'
+                  ? 'The user meets all the requirements of the registered project policy and is eligible to participate.'
+                  : 'The user does not meet one or more requirements of the registered project policy and is not eligible to participate.'
                 }
               </p>
 
@@ -459,7 +481,7 @@ export default function Project({ fheInstance }: ProjectProps) {
                     <h5 className="text-xs font-semibold text-purple-300 mb-2">🔐 PRIVACY PROTECTION</h5>
                     <p className="text-xs text-purple-200 leading-relaxed">
                       <strong>Zero-Knowledge Verification:</strong> You can only see the eligibility status (YES/NO) for the specified criteria. 
-                      The user's actual age, specific country, passport details, and other personal KYC information remain completely 
+                      The user's actual age, specific country, identity document details, and other personal KYC information remain completely 
                       encrypted and hidden thanks to Fully Homomorphic Encryption (FHE) technology.
                     </p>
                   </div>
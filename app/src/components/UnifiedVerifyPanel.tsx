@@ -1,33 +1,103 @@
 import { useState } from 'react'
-import { useWriteContract, useWaitForTransactionReceipt, useReadContract } from 'wagmi'
+import { useWriteContract, useWaitForTransactionReceipt, useReadContract, useWalletClient, usePublicClient } from 'wagmi'
 import { SecureKYCABI } from '../contracts/SecureKYC'
 import { CONTRACT_ADDRESS } from '../config/wagmi'
+import {
+  COUNTRY_CODES,
+  DOCUMENT_TYPES,
+  DOCUMENT_TYPE_LABELS,
+  INCOME_BANDS,
+  INCOME_BAND_LABELS,
+  KYC_STATUS,
+  KYC_TIERS,
+  KYC_TIER_LABELS,
+  MAX_RISK_SCORE,
+  REJECTION_REASONS,
+  ROLES,
+  converZamaHex,
+  countryNamesFromMask,
+  documentTypeNamesFromMask,
+  toCountryMask,
+  toDocumentTypeMask,
+  type DocumentType,
+  type IncomeBand,
+  type KYCTier
+} from '../config/fhe'
+import { addressToDocumentNumber, documentFingerprint, documentNumberToAddress } from '../utils/passportUtils'
+import { formatPackedDate } from '../utils/dateUtils'
 import { isAddress } from 'viem'
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
 
 interface UnifiedVerifyPanelProps {
+  fheInstance?: FhevmInstance | null
   userAddress: `0x${string}` | undefined
+  isVerifyPaused: boolean
 }
 
-export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelProps) {
-  const [activeSection, setActiveSection] = useState<'kyc' | 'project'>('kyc')
+interface ReviewedSubmission {
+  user: string
+  documentTypeCode: number
+  documentAddress: `0x${string}`
+  documentType: string
+  documentNumber: string
+  documentExpiry: string
+  dateOfBirth: string
+  countryCode: string
+}
+
+const ZERO_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000'
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
+const SECONDS_PER_DAY = 86400n
+
+export default function UnifiedVerifyPanel({ fheInstance, userAddress, isVerifyPaused }: UnifiedVerifyPanelProps) {
+  const [selectedSection, setSelectedSection] = useState<'kyc' | 'project'>('kyc')
   
   // KYC Verification state
   const [targetAddress, setTargetAddress] = useState('')
   const [isVerifying, setIsVerifying] = useState(false)
+  const [rejectionReason, setRejectionReason] = useState(1)
+  const [lastKycAction, setLastKycAction] = useState<'verify' | 'reject' | 'attributes' | 'risk'>('verify')
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [reviewedSubmission, setReviewedSubmission] = useState<ReviewedSubmission | null>(null)
+  const [documentIndexKey, setDocumentIndexKey] = useState('')
+  const [checkedDocumentType, setCheckedDocumentType] = useState<DocumentType>(DOCUMENT_TYPES.PASSPORT)
+  const [checkedDocumentNumber, setCheckedDocumentNumber] = useState('')
+  const [approvalTier, setApprovalTier] = useState<KYCTier>(KYC_TIERS.ENHANCED)
+  const [isAccredited, setIsAccredited] = useState(false)
+  const [incomeBand, setIncomeBand] = useState<IncomeBand>(INCOME_BANDS.UNDER_50K)
+  const [riskScore, setRiskScore] = useState('')
+  const { data: walletClient } = useWalletClient()
+  const publicClient = usePublicClient()
   
   // Project Management state
   const [projectName, setProjectName] = useState('')
+  const [minAge, setMinAge] = useState('18')
+  const [selectedCountries, setSelectedCountries] = useState<string[]>([])
+  const [acceptedDocumentTypes, setAcceptedDocumentTypes] = useState<DocumentType[]>([DOCUMENT_TYPES.PASSPORT])
+  const [maxVerificationDays, setMaxVerificationDays] = useState('0')
+  const [minTier, setMinTier] = useState<KYCTier>(KYC_TIERS.NONE)
+  const [requireAccredited, setRequireAccredited] = useState(false)
+  const [minIncomeBand, setMinIncomeBand] = useState<IncomeBand>(INCOME_BANDS.NOT_ASSESSED)
+  const [maxRiskScore, setMaxRiskScore] = useState('0')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [lookupProjectName, setLookupProjectName] = useState('')
 
-  // Check if current user is an authorized verifier
-  const { data: isAuthorizedVerifier } = useReadContract({
+  // Verifiers see the KYC section and project managers the project section
+  const { data: isVerifier } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: SecureKYCABI,
-    functionName: 'authorizedVerifiers',
-    args: userAddress ? [userAddress] : undefined,
+    functionName: 'hasRole',
+    args: userAddress ? [ROLES.VERIFIER, userAddress] : undefined,
     query: { enabled: !!userAddress }
   })
+  const { data: isProjectManager } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'hasRole',
+    args: userAddress ? [ROLES.PROJECT_MANAGER, userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+  const activeSection = !isVerifier ? 'project' : !isProjectManager ? 'kyc' : selectedSection
 
   // Get verification status of target address
   const { data: verificationStatus, refetch: refetchStatus } = useReadContract({
@@ -38,15 +108,80 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
     query: { enabled: isAddress(targetAddress) }
   })
 
+  // Get review status of target address
+  const { data: targetKycStatus, refetch: refetchKycStatus } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getKYCStatus',
+    args: isAddress(targetAddress) ? [targetAddress as `0x${string}`] : undefined,
+    query: { enabled: isAddress(targetAddress) }
+  })
+  const isTargetPending = targetKycStatus?.[0] === KYC_STATUS.PENDING
+  const isTargetApproved = targetKycStatus?.[0] === KYC_STATUS.APPROVED
+  const isTargetExpired = isTargetApproved && verificationStatus?.[0] === false
+  const isTargetRejected = targetKycStatus?.[0] === KYC_STATUS.REJECTED
+  const isTargetRevoked = targetKycStatus?.[0] === KYC_STATUS.REVOKED
+
+  // Get the verifier the target user assigned to their submission, if any
+  const { data: assignedVerifier } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getAssignedVerifier',
+    args: isAddress(targetAddress) ? [targetAddress as `0x${string}`] : undefined,
+    query: { enabled: isAddress(targetAddress) }
+  })
+  const hasAssignedVerifier = !!assignedVerifier && assignedVerifier !== ZERO_ADDRESS
+  const isAssignedToMe = hasAssignedVerifier && assignedVerifier.toLowerCase() === userAddress?.toLowerCase()
+
+  // Under a quorum every verifier approves the same submission, so assignment no longer restricts who may act
+  const verificationQuorum = verificationStatus?.[5] ?? 1n
+  const requiresQuorum = verificationQuorum > 1n
+  const isAssignedToOther = hasAssignedVerifier && !isAssignedToMe && !requiresQuorum
+
+  // Get the verifiers who already approved the target submission
+  const { data: approvers, refetch: refetchApprovers } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getVerificationApprovers',
+    args: isAddress(targetAddress) ? [targetAddress as `0x${string}`] : undefined,
+    query: { enabled: isAddress(targetAddress) && requiresQuorum }
+  })
+  const hasApproved = !!approvers?.some(approver => approver.toLowerCase() === userAddress?.toLowerCase())
+
+  // Get how far the target submission has been screened against the encrypted blocklist
+  const { data: blocklistSize } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getBlocklistSize'
+  })
+  const { data: blocklistScreening } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getBlocklistScreening',
+    args: isAddress(targetAddress) ? [targetAddress as `0x${string}`] : undefined,
+    query: { enabled: isAddress(targetAddress) }
+  })
+
+  // Get encrypted handles of target submission for review
+  const { data: targetKycData } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getUserKYCData',
+    args: isAddress(targetAddress) ? [targetAddress as `0x${string}`] : undefined,
+    query: { enabled: isAddress(targetAddress) && isAssignedToMe }
+  })
+  const review = reviewedSubmission?.user.toLowerCase() === targetAddress.toLowerCase() ? reviewedSubmission : null
+
   // Get project requirements for lookup
   const isValidAddress = lookupProjectName?.startsWith('0x') && lookupProjectName.length === 42
   const { data: projectRequirements } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: SecureKYCABI,
-    functionName: 'projectRequirements',
+    functionName: 'getProjectRequirements',
     args: isValidAddress ? [lookupProjectName as `0x${string}`] : undefined,
     query: { enabled: !!isValidAddress }
   })
+  const hasProjectPolicy = !!projectRequirements && projectRequirements.policyHash !== ZERO_HASH
 
   const { writeContract, data: hash } = useWriteContract()
   const { isLoading: isConfirming, isSuccess: isConfirmed } = 
@@ -55,44 +190,255 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
   // Refetch status when transaction is confirmed
   if (isConfirmed && activeSection === 'kyc') {
     refetchStatus()
+    refetchKycStatus()
+    refetchApprovers()
   }
 
   const handleVerifyKYC = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!isAddress(targetAddress) || !userAddress) return
+    if (!isAddress(targetAddress) || !userAddress || !publicClient || !fheInstance || !documentIndexKey || !riskScore) return
 
     try {
       setIsVerifying(true)
-      
+      setLastKycAction('verify')
+
+      // Fingerprint the decrypted submission, or the document the verifier checked off-chain
+      const fingerprint = review
+        ? await documentFingerprint(documentIndexKey, review.documentTypeCode, review.documentAddress)
+        : await documentFingerprint(
+            documentIndexKey,
+            checkedDocumentType,
+            documentNumberToAddress(checkedDocumentType, checkedDocumentNumber)
+          )
+
+      const isDuplicate = await publicClient.readContract({
+        address: CONTRACT_ADDRESS,
+        abi: SecureKYCABI,
+        functionName: 'isDuplicateDocument',
+        args: [fingerprint, targetAddress as `0x${string}`]
+      })
+      if (isDuplicate) {
+        alert('This document is already held by another verified wallet')
+        return
+      }
+
+      // Encrypted in the browser, so the risk assessment never appears in plaintext on-chain
+      const encryptedInput = await fheInstance
+        .createEncryptedInput(CONTRACT_ADDRESS, userAddress)
+        .add8(BigInt(riskScore))
+        .encrypt()
+
       writeContract({
         address: CONTRACT_ADDRESS,
         abi: SecureKYCABI,
         functionName: 'verifyKYC',
-        args: [targetAddress as `0x${string}`]
+        args: [
+          targetAddress as `0x${string}`,
+          fingerprint,
+          approvalTier,
+          converZamaHex(encryptedInput.handles[0]), // riskScore
+          converZamaHex(encryptedInput.inputProof)
+        ]
       })
     } catch (error) {
       console.error('Error verifying KYC:', error)
+      alert((error as Error).message)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleUpdateRiskScore = async () => {
+    if (!isAddress(targetAddress) || !userAddress || !fheInstance || !riskScore) return
+
+    try {
+      setIsVerifying(true)
+      setLastKycAction('risk')
+
+      const encryptedInput = await fheInstance
+        .createEncryptedInput(CONTRACT_ADDRESS, userAddress)
+        .add8(BigInt(riskScore))
+        .encrypt()
+
+      writeContract({
+        address: CONTRACT_ADDRESS,
+        abi: SecureKYCABI,
+        functionName: 'updateRiskScore',
+        args: [
+          targetAddress as `0x${string}`,
+          converZamaHex(encryptedInput.handles[0]),
+          converZamaHex(encryptedInput.inputProof)
+        ]
+      })
+    } catch (error) {
+      console.error('Error updating risk score:', error)
+      alert((error as Error).message)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleRejectKYC = async () => {
+    if (!isAddress(targetAddress) || !userAddress) return
+
+    try {
+      setIsVerifying(true)
+      setLastKycAction('reject')
+
+      writeContract({
+        address: CONTRACT_ADDRESS,
+        abi: SecureKYCABI,
+        functionName: 'rejectKYC',
+        args: [targetAddress as `0x${string}`, rejectionReason]
+      })
+    } catch (error) {
+      console.error('Error rejecting KYC:', error)
     } finally {
       setIsVerifying(false)
     }
   }
 
+  const handleSetInvestorAttributes = async () => {
+    if (!isAddress(targetAddress) || !userAddress || !fheInstance) return
+
+    try {
+      setIsVerifying(true)
+      setLastKycAction('attributes')
+
+      // Encrypted in the browser, so the assessment never appears in plaintext on-chain
+      const encryptedInput = await fheInstance
+        .createEncryptedInput(CONTRACT_ADDRESS, userAddress)
+        .addBool(isAccredited)
+        .add8(BigInt(incomeBand))
+        .encrypt()
+
+      writeContract({
+        address: CONTRACT_ADDRESS,
+        abi: SecureKYCABI,
+        functionName: 'setInvestorAttributes',
+        args: [
+          targetAddress as `0x${string}`,
+          converZamaHex(encryptedInput.handles[0]), // accredited
+          converZamaHex(encryptedInput.handles[1]), // incomeBand
+          converZamaHex(encryptedInput.inputProof)
+        ]
+      })
+    } catch (error) {
+      console.error('Error setting investor attributes:', error)
+      alert((error as Error).message)
+    } finally {
+      setIsVerifying(false)
+    }
+  }
+
+  const handleDecryptSubmission = async () => {
+    if (!fheInstance || !userAddress || !walletClient || !targetKycData) return
+
+    try {
+      setIsDecrypting(true)
+
+      // Same user-decryption flow as the dashboard; the contract granted this verifier access on assignment
+      const keypair = fheInstance.generateKeypair()
+      const handleContractPairs = [
+        { handle: targetKycData[0], contractAddress: CONTRACT_ADDRESS }, // document number
+        { handle: targetKycData[1], contractAddress: CONTRACT_ADDRESS }, // date of birth
+        { handle: targetKycData[2], contractAddress: CONTRACT_ADDRESS }, // country code
+        { handle: targetKycData[3], contractAddress: CONTRACT_ADDRESS }, // document type
+        { handle: targetKycData[4], contractAddress: CONTRACT_ADDRESS }, // document expiry
+      ]
+
+      const startTimeStamp = Math.floor(Date.now() / 1000).toString()
+      const durationDays = "1"
+      const contractAddresses = [CONTRACT_ADDRESS]
+
+      const eip712 = fheInstance.createEIP712(keypair.publicKey, contractAddresses, startTimeStamp, durationDays)
+      const signature = await walletClient.signTypedData({
+        account: userAddress,
+        domain: eip712.domain as Parameters<typeof walletClient.signTypedData>[0]['domain'],
+        types: {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        primaryType: 'UserDecryptRequestVerification',
+        message: eip712.message,
+      })
+
+      const result = await fheInstance.userDecrypt(
+        handleContractPairs,
+        keypair.privateKey,
+        keypair.publicKey,
+        signature.replace("0x", ""),
+        contractAddresses,
+        userAddress,
+        startTimeStamp,
+        durationDays,
+      )
+
+      const countryCodeNum = Number(result[targetKycData[2]])
+      const documentType = Number(result[targetKycData[3]])
+      const countryName = Object.keys(COUNTRY_CODES).find(key => COUNTRY_CODES[key as keyof typeof COUNTRY_CODES] === countryCodeNum)
+
+      setReviewedSubmission({
+        user: targetAddress,
+        documentTypeCode: documentType,
+        documentAddress: result[targetKycData[0]] as `0x${string}`,
+        documentType: DOCUMENT_TYPE_LABELS[documentType as DocumentType] ?? `Type ${documentType}`,
+        documentNumber: addressToDocumentNumber(documentType, result[targetKycData[0]] as `0x${string}`) || 'Invalid',
+        documentExpiry: formatPackedDate(result[targetKycData[4]] as bigint),
+        dateOfBirth: formatPackedDate(result[targetKycData[1]] as bigint),
+        countryCode: countryName || `Code ${countryCodeNum}`
+      })
+    } catch (error) {
+      console.error('Error decrypting submission:', error)
+      alert('Failed to decrypt submission. Please try again.')
+    } finally {
+      setIsDecrypting(false)
+    }
+  }
+
+  const handleDocumentTypeToggle = (documentType: DocumentType) => {
+    setAcceptedDocumentTypes(prev =>
+      prev.includes(documentType)
+        ? prev.filter(type => type !== documentType)
+        : [...prev, documentType]
+    )
+  }
+
+  const handleCountryToggle = (countryName: string) => {
+    setSelectedCountries(prev =>
+      prev.includes(countryName)
+        ? prev.filter(country => country !== countryName)
+        : [...prev, countryName]
+    )
+  }
+
   const handleCreateProject = async (e: React.FormEvent) => {
     e.preventDefault()
     
-    if (!userAddress || !projectName) return
+    if (!userAddress || !isAddress(projectName) || !minAge || selectedCountries.length === 0) return
 
     try {
       setIsSubmitting(true)
       
-      const projectAddress = userAddress
+      const allowedCountryMask = toCountryMask(selectedCountries.map(countryName =>
+        COUNTRY_CODES[countryName as keyof typeof COUNTRY_CODES]
+      ))
       
       writeContract({
         address: CONTRACT_ADDRESS,
         abi: SecureKYCABI,
         functionName: 'setProjectRequirements',
-        args: [projectAddress]
+        args: [
+          projectName as `0x${string}`,
+          parseInt(minAge),
+          allowedCountryMask,
+          toDocumentTypeMask(acceptedDocumentTypes),
+          BigInt(maxVerificationDays || '0') * SECONDS_PER_DAY,
+          minTier,
+          requireAccredited,
+          minIncomeBand,
+          parseInt(maxRiskScore || '0')
+        ]
       })
     } catch (error) {
       console.error('Error setting project requirements:', error)
@@ -101,7 +447,7 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
     }
   }
 
-  if (!isAuthorizedVerifier) {
+  if (!isVerifier && !isProjectManager) {
     return (
       <div className="card-tech p-6 slide-in-up">
         <div className="flex items-center space-x-3 mb-6">
@@ -116,8 +462,8 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
             <div>
               <h3 className="font-semibold mb-2 text-sm">ACCESS RESTRICTED</h3>
               <p className="text-sm opacity-90 leading-relaxed">
-                You are not authorized to access verification functions. Only authorized verifiers with proper cryptographic credentials can verify KYC data and manage projects.
-                Contact the system administrator to request verifier access.
+                You are not authorized to access verification functions. Only accounts holding the verifier role can verify KYC data, and only project managers can manage projects.
+                Contact the system administrator to request a role.
               </p>
             </div>
           </div>
@@ -141,17 +487,10 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
               />
             </div>
 
-            {projectRequirements && (
+            {hasProjectPolicy && (
               <div className="card-tech p-6 border-cyan-500/30">
-                <h4 className="text-lg font-semibold text-white mb-4">PROJECT STATUS</h4>
-                <div className="space-y-3">
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm font-medium text-gray-300">PROJECT ACTIVE:</span>
-                    <span className="text-sm font-semibold px-3 py-1 rounded bg-green-900/30 text-green-400 border border-green-500/30">
-                      {projectRequirements ? 'ACTIVE' : 'INACTIVE'}
-                    </span>
-                  </div>
-                </div>
+                <h4 className="text-lg font-semibold text-white mb-4">PROJECT POLICY</h4>
+                <ProjectPolicyDetails requirements={projectRequirements} />
               </div>
             )}
           </div>
@@ -169,12 +508,12 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
             PROJECT CREATION SUCCESSFUL
           </h3>
           <p className="text-gray-300 mb-6 leading-relaxed">
-            The project "{projectName}" has been successfully registered on the blockchain.
-            Your project is now active and can receive KYC eligibility verification requests.
+            The policy for project "{projectName}" has been successfully registered on the blockchain.
+            The project is now active and every eligibility check it runs will be evaluated against this policy.
           </p>
           <button 
             onClick={() => {
-              setActiveSection('project')
+              setSelectedSection('project')
               setProjectName('')
               window.location.reload()
             }} 
@@ -199,9 +538,13 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
       <div className="alert-tech alert-tech-success mb-6">
         <div className="flex items-start space-x-3">
           <div>
-            <h3 className="font-semibold mb-2 text-sm">AUTHORIZED VERIFIER</h3>
+            <h3 className="font-semibold mb-2 text-sm">{isVerifier ? 'AUTHORIZED VERIFIER' : 'PROJECT MANAGER'}</h3>
             <p className="text-sm opacity-90 leading-relaxed">
-              You are authorized to verify KYC submissions and manage projects. Use the tabs below to switch between KYC verification and project management functions.
+              {isVerifier && isProjectManager
+                ? 'You are authorized to verify KYC submissions and manage projects. Use the tabs below to switch between KYC verification and project management functions.'
+                : isVerifier
+                  ? 'You are authorized to verify KYC submissions. Project policies are managed by accounts holding the project manager role.'
+                  : 'You are authorized to manage project policies. KYC submissions are verified by accounts holding the verifier role.'}
             </p>
           </div>
         </div>
@@ -209,18 +552,22 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
 
       {/* Section Navigation */}
       <div className="nav-tech mb-6 slide-in-up">
-        <button
-          onClick={() => setActiveSection('kyc')}
-          className={`tab-tech ${activeSection === 'kyc' ? 'active' : ''}`}
-        >
-          <span>KYC VERIFICATION</span>
-        </button>
-        <button
-          onClick={() => setActiveSection('project')}
-          className={`tab-tech ${activeSection === 'project' ? 'active' : ''}`}
-        >
-          <span>PROJECT MANAGEMENT</span>
-        </button>
+        {isVerifier && (
+          <button
+            onClick={() => setSelectedSection('kyc')}
+            className={`tab-tech ${activeSection === 'kyc' ? 'active' : ''}`}
+          >
+            <span>KYC VERIFICATION</span>
+          </button>
+        )}
+        {isProjectManager && (
+          <button
+            onClick={() => setSelectedSection('project')}
+            className={`tab-tech ${activeSection === 'project' ? 'active' : ''}`}
+          >
+            <span>PROJECT MANAGEMENT</span>
+          </button>
+        )}
       </div>
 
       {/* KYC Verification Section */}
@@ -254,11 +601,53 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
                     <span className={`text-sm font-semibold px-3 py-1 rounded ${
                       verificationStatus[0] 
                         ? 'bg-green-900/30 text-green-400 border border-green-500/30' 
-                        : 'bg-yellow-900/30 text-yellow-400 border border-yellow-500/30'
+                        : isTargetRejected || isTargetRevoked
+                          ? 'bg-red-900/30 text-red-400 border border-red-500/30'
+                          : 'bg-yellow-900/30 text-yellow-400 border border-yellow-500/30'
                     }`}>
-                      {verificationStatus[0] ? 'VERIFIED' : 'PENDING VERIFICATION'}
+                      {verificationStatus[0] ? 'VERIFIED' : isTargetRejected ? 'REJECTED' : isTargetRevoked ? 'REVOKED' : isTargetExpired ? 'EXPIRED' : 'PENDING VERIFICATION'}
                     </span>
                   </div>
+                  {verificationStatus[3] > 0n && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">EXPIRES ON:</span>
+                      <span className="text-sm text-white font-mono">
+                        {new Date(Number(verificationStatus[3]) * 1000).toLocaleDateString()}
+                      </span>
+                    </div>
+                  )}
+                  {requiresQuorum && !verificationStatus[0] && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">APPROVALS:</span>
+                      <span className="text-sm text-white font-mono">
+                        {verificationStatus[4].toString()} / {verificationQuorum.toString()}{hasApproved ? ' (INCLUDING YOU)' : ''}
+                      </span>
+                    </div>
+                  )}
+                  {hasAssignedVerifier && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">ASSIGNED VERIFIER:</span>
+                      <span className="text-sm text-cyan-400 font-mono break-all">
+                        {isAssignedToMe ? 'YOU' : assignedVerifier}
+                      </span>
+                    </div>
+                  )}
+                  {blocklistSize !== undefined && blocklistScreening && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">BLOCKLIST SCREENING:</span>
+                      <span className="text-sm text-white font-mono">
+                        {blocklistScreening[1].toString()} / {blocklistSize.toString()} ENTRIES
+                      </span>
+                    </div>
+                  )}
+                  {isTargetRejected && targetKycStatus && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">REJECTION REASON:</span>
+                      <span className="text-sm text-red-400">
+                        {REJECTION_REASONS[targetKycStatus[1]] ?? `Code ${targetKycStatus[1]}`}
+                      </span>
+                    </div>
+                  )}
                   {verificationStatus[0] && (
                     <>
                       <div className="flex justify-between items-center">
@@ -273,20 +662,195 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
                           {verificationStatus[2]}
                         </span>
                       </div>
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium text-gray-300">ASSURANCE TIER:</span>
+                        <span className="text-sm text-white">
+                          {KYC_TIER_LABELS[verificationStatus[6] as KYCTier] ?? `Tier ${verificationStatus[6]}`}
+                        </span>
+                      </div>
                     </>
                   )}
                 </div>
               </div>
             )}
 
+            {isTargetPending && isAssignedToMe && (
+              <div className="card-tech p-6 border-cyan-500/30">
+                <div className="flex justify-between items-center mb-4">
+                  <h3 className="text-lg font-semibold text-white">SUBMISSION REVIEW</h3>
+                  <button
+                    type="button"
+                    onClick={handleDecryptSubmission}
+                    disabled={isDecrypting || !fheInstance || !walletClient || !targetKycData}
+                    className="btn-tech-small glow-cyan"
+                  >
+                    {isDecrypting ? (
+                      <div className="flex items-center">
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                        <span>DECRYPTING...</span>
+                      </div>
+                    ) : (
+                      <span>DECRYPT SUBMISSION</span>
+                    )}
+                  </button>
+                </div>
+                {review ? (
+                  <div className="space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">DOCUMENT TYPE:</span>
+                      <span className="text-sm text-white font-mono">{review.documentType}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">DOCUMENT NUMBER:</span>
+                      <span className="text-sm text-white font-mono">{review.documentNumber}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">DOCUMENT EXPIRY:</span>
+                      <span className="text-sm text-white font-mono">{review.documentExpiry}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">DATE OF BIRTH:</span>
+                      <span className="text-sm text-white font-mono">{review.dateOfBirth}</span>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-300">COUNTRY:</span>
+                      <span className="text-sm text-white font-mono">{review.countryCode}</span>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-300">
+                    This user assigned their submission to you. Decrypt it to check the data against their documents before approving or rejecting.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {isTargetPending && isAssignedToOther && (
+              <p className="text-sm text-yellow-400">
+                This submission is assigned to another verifier. Only the assigned verifier can approve or reject it.
+              </p>
+            )}
+
+            {(isTargetPending || isTargetApproved) && !isAssignedToOther && (
+              <div className="card-tech p-6 border-cyan-500/30">
+                <h3 className="text-lg font-semibold text-white mb-4">DUPLICATE DOCUMENT CHECK</h3>
+                <div className="form-tech">
+                  <label htmlFor="documentIndexKey" className="form-label-tech">
+                    DOCUMENT INDEX KEY
+                  </label>
+                  <input
+                    type="password"
+                    id="documentIndexKey"
+                    value={documentIndexKey}
+                    onChange={(e) => setDocumentIndexKey(e.target.value)}
+                    required
+                    className="form-input-tech"
+                    placeholder="SHARED VERIFIER SECRET"
+                  />
+                </div>
+                {!review && (
+                  <>
+                    <div className="form-tech mt-4">
+                      <label htmlFor="checkedDocumentType" className="form-label-tech">
+                        CHECKED DOCUMENT TYPE
+                      </label>
+                      <select
+                        id="checkedDocumentType"
+                        value={checkedDocumentType}
+                        onChange={(e) => setCheckedDocumentType(Number(e.target.value) as DocumentType)}
+                        className="form-input-tech"
+                      >
+                        {Object.values(DOCUMENT_TYPES).map((type) => (
+                          <option key={type} value={type}>
+                            {DOCUMENT_TYPE_LABELS[type]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-tech mt-4">
+                      <label htmlFor="checkedDocumentNumber" className="form-label-tech">
+                        CHECKED DOCUMENT NUMBER
+                      </label>
+                      <input
+                        type="text"
+                        id="checkedDocumentNumber"
+                        value={checkedDocumentNumber}
+                        onChange={(e) => setCheckedDocumentNumber(e.target.value)}
+                        required
+                        className="form-input-tech"
+                        placeholder="DOCUMENT NUMBER AS PRESENTED BY THE USER"
+                      />
+                    </div>
+                  </>
+                )}
+                <p className="mt-3 text-xs text-gray-500">
+                  A keyed fingerprint of the document is recorded on approval, so the same document cannot be verified for a second wallet.
+                </p>
+              </div>
+            )}
+
+            {(isTargetPending || isTargetApproved) && !isAssignedToOther && (
+              <div className="form-tech">
+                <label htmlFor="approvalTier" className="form-label-tech">
+                  ASSURANCE TIER
+                </label>
+                <select
+                  id="approvalTier"
+                  value={approvalTier}
+                  onChange={(e) => setApprovalTier(Number(e.target.value) as KYCTier)}
+                  className="form-input-tech"
+                >
+                  {[KYC_TIERS.BASIC, KYC_TIERS.ENHANCED, KYC_TIERS.FULL].map((tier) => (
+                    <option key={tier} value={tier}>
+                      {KYC_TIER_LABELS[tier]}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-2 text-xs text-gray-500">
+                  {requiresQuorum
+                    ? 'The user receives the lowest tier granted by the approving verifiers.'
+                    : 'Grant the tier matching the checks you performed.'}
+                </p>
+              </div>
+            )}
+
+            {(isTargetPending || isTargetApproved) && !isAssignedToOther && (
+              <div className="form-tech">
+                <label htmlFor="riskScore" className="form-label-tech">
+                  AML RISK SCORE (0-{MAX_RISK_SCORE})
+                </label>
+                <input
+                  type="number"
+                  id="riskScore"
+                  value={riskScore}
+                  onChange={(e) => setRiskScore(e.target.value)}
+                  min="0"
+                  max={MAX_RISK_SCORE}
+                  className="form-input-tech"
+                  placeholder="0 = lowest risk"
+                  required
+                />
+                <p className="mt-2 text-xs text-gray-500">
+                  {requiresQuorum
+                    ? 'Encrypted before submission. The user receives the highest score assigned by the approving verifiers.'
+                    : 'Encrypted before submission. Only you can decrypt it; projects see only their eligibility result.'}
+                </p>
+              </div>
+            )}
+
             <div className="mt-8">
               <button
                 type="submit"
                 disabled={
+                  isVerifyPaused ||
                   isVerifying || 
                   isConfirming || 
+                  !fheInstance ||
+                  !riskScore ||
                   !isAddress(targetAddress) ||
-                  (verificationStatus && verificationStatus[0])
+                  !(isTargetPending || isTargetApproved) ||
+                  isAssignedToOther ||
+                  hasApproved
                 }
                 className="btn-tech w-full glow-cyan pulse-glow"
                 style={{ width: '100%' }}
@@ -296,15 +860,166 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-3"></div>
                     <span>{isVerifying ? 'PROCESSING VERIFICATION...' : 'CONFIRMING ON BLOCKCHAIN...'}</span>
                   </div>
-                ) : verificationStatus && verificationStatus[0] ? (
-                  <span>ALREADY VERIFIED</span>
+                ) : isVerifyPaused ? (
+                  <span>VERIFICATION PAUSED</span>
+                ) : hasApproved ? (
+                  <span>ALREADY APPROVED</span>
+                ) : isTargetApproved ? (
+                  <span>RE-VERIFY KYC DATA</span>
                 ) : (
                   <span>VERIFY KYC DATA</span>
                 )}
               </button>
             </div>
 
-            {isConfirmed && activeSection === 'kyc' && (
+            {verificationStatus?.[0] && (
+              <div className="card-tech p-6 border-cyan-500/30">
+                <h3 className="text-lg font-semibold text-white mb-4">INVESTOR ATTRIBUTES</h3>
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isAccredited}
+                    onChange={(e) => setIsAccredited(e.target.checked)}
+                    className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
+                  />
+                  <span className="text-sm text-white">Accredited investor</span>
+                </label>
+                <div className="form-tech mt-4">
+                  <label htmlFor="incomeBand" className="form-label-tech">
+                    INCOME / NET-WORTH BAND
+                  </label>
+                  <select
+                    id="incomeBand"
+                    value={incomeBand}
+                    onChange={(e) => setIncomeBand(Number(e.target.value) as IncomeBand)}
+                    className="form-input-tech"
+                  >
+                    {Object.values(INCOME_BANDS).filter(band => band !== INCOME_BANDS.NOT_ASSESSED).map((band) => (
+                      <option key={band} value={band}>
+                        {INCOME_BAND_LABELS[band]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Both values are encrypted before submission and replace any earlier assessment. Only the user and you can decrypt them.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleSetInvestorAttributes}
+                  disabled={isVerifyPaused || isVerifying || isConfirming || !fheInstance}
+                  className="btn-tech w-full mt-4 glow-cyan"
+                  style={{ width: '100%' }}
+                >
+                  <span>SET INVESTOR ATTRIBUTES</span>
+                </button>
+              </div>
+            )}
+
+            {verificationStatus?.[0] && (
+              <div className="card-tech p-6 border-cyan-500/30">
+                <h3 className="text-lg font-semibold text-white mb-4">AML RISK SCORE</h3>
+                <div className="form-tech">
+                  <label htmlFor="updatedRiskScore" className="form-label-tech">
+                    NEW RISK SCORE (0-{MAX_RISK_SCORE})
+                  </label>
+                  <input
+                    type="number"
+                    id="updatedRiskScore"
+                    value={riskScore}
+                    onChange={(e) => setRiskScore(e.target.value)}
+                    min="0"
+                    max={MAX_RISK_SCORE}
+                    className="form-input-tech"
+                    placeholder="0 = lowest risk"
+                  />
+                </div>
+                <p className="mt-2 text-xs text-gray-500">
+                  Replaces the user's current score after ongoing monitoring. Scores above {MAX_RISK_SCORE} are capped.
+                </p>
+                <button
+                  type="button"
+                  onClick={handleUpdateRiskScore}
+                  disabled={isVerifyPaused || isVerifying || isConfirming || !fheInstance || !riskScore}
+                  className="btn-tech w-full mt-4 glow-cyan"
+                  style={{ width: '100%' }}
+                >
+                  <span>UPDATE RISK SCORE</span>
+                </button>
+              </div>
+            )}
+
+            {isTargetPending && (
+              <div className="card-tech p-4 border-red-500/30">
+                <div className="form-tech">
+                  <label htmlFor="rejectionReason" className="form-label-tech">
+                    REJECTION REASON
+                  </label>
+                  <select
+                    id="rejectionReason"
+                    value={rejectionReason}
+                    onChange={(e) => setRejectionReason(Number(e.target.value))}
+                    className="form-input-tech"
+                  >
+                    {Object.entries(REJECTION_REASONS).map(([code, label]) => (
+                      <option key={code} value={code}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <button
+                  type="button"
+                  onClick={handleRejectKYC}
+                  disabled={isVerifyPaused || isVerifying || isConfirming || isAssignedToOther}
+                  className="btn-tech w-full mt-4 border border-red-500/50 text-red-300"
+                  style={{ width: '100%' }}
+                >
+                  <span>REJECT SUBMISSION</span>
+                </button>
+              </div>
+            )}
+
+            {isConfirmed && activeSection === 'kyc' && lastKycAction === 'reject' && (
+              <div className="alert-tech alert-tech-warning mt-6">
+                <div className="flex items-start space-x-3">
+                  <div>
+                    <h3 className="font-semibold mb-2 text-lg">KYC SUBMISSION REJECTED</h3>
+                    <p className="text-sm opacity-90 leading-relaxed">
+                      The rejection and its reason code have been recorded on the blockchain. The user can correct their data and resubmit.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isConfirmed && activeSection === 'kyc' && lastKycAction === 'attributes' && (
+              <div className="alert-tech alert-tech-success mt-6">
+                <div className="flex items-start space-x-3">
+                  <div>
+                    <h3 className="font-semibold mb-2 text-lg">INVESTOR ATTRIBUTES RECORDED</h3>
+                    <p className="text-sm opacity-90 leading-relaxed">
+                      The encrypted accreditation status and income band are now stored with the user's KYC record.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isConfirmed && activeSection === 'kyc' && lastKycAction === 'risk' && (
+              <div className="alert-tech alert-tech-success mt-6">
+                <div className="flex items-start space-x-3">
+                  <div>
+                    <h3 className="font-semibold mb-2 text-lg">RISK SCORE UPDATED</h3>
+                    <p className="text-sm opacity-90 leading-relaxed">
+                      The encrypted risk score now applies to every project with a risk limit.
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {isConfirmed && activeSection === 'kyc' && lastKycAction === 'verify' && (
               <div className="alert-tech alert-tech-success mt-6">
                 <div className="flex items-start space-x-3">
                   <div>
@@ -340,8 +1055,163 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
                   onChange={(e) => setProjectName(e.target.value)}
                   required
                   className="form-input-tech"
-                  placeholder="ENTER PROJECT IDENTIFIER"
+                  placeholder="ENTER PROJECT ADDRESS (0x...)"
+                />
+                {projectName && !isAddress(projectName) && (
+                  <p className="mt-3 text-sm text-red-400">Please enter a valid Ethereum address</p>
+                )}
+              </div>
+
+              <div className="form-tech">
+                <label htmlFor="policyMinAge" className="form-label-tech">
+                  MINIMUM AGE
+                </label>
+                <input
+                  type="number"
+                  id="policyMinAge"
+                  value={minAge}
+                  onChange={(e) => setMinAge(e.target.value)}
+                  required
+                  min="0"
+                  max="150"
+                  className="form-input-tech"
+                  placeholder="18"
+                />
+              </div>
+
+              <div className="form-tech">
+                <label className="form-label-tech mb-3">
+                  ALLOWED COUNTRIES
+                </label>
+                <div className="flex flex-wrap gap-2 max-h-60 overflow-y-auto border border-gray-600/30 rounded-lg p-4 bg-gray-800/30">
+                  {Object.keys(COUNTRY_CODES).map((countryName) => (
+                    <label key={countryName} className="flex items-center space-x-2 cursor-pointer whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={selectedCountries.includes(countryName)}
+                        onChange={() => handleCountryToggle(countryName)}
+                        className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
+                      />
+                      <span className="text-sm text-white">{countryName}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Selected: {selectedCountries.length} countries
+                </p>
+              </div>
+
+              <div className="form-tech">
+                <label className="form-label-tech">
+                  ACCEPTED DOCUMENT TYPES
+                </label>
+                <div className="flex flex-wrap gap-4">
+                  {Object.values(DOCUMENT_TYPES).map((type) => (
+                    <label key={type} className="flex items-center space-x-2 cursor-pointer whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={acceptedDocumentTypes.includes(type)}
+                        onChange={() => handleDocumentTypeToggle(type)}
+                        className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
+                      />
+                      <span className="text-sm text-white">{DOCUMENT_TYPE_LABELS[type]}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Leave all unchecked to accept any identity document
+                </p>
+              </div>
+
+              <div className="form-tech">
+                <label htmlFor="maxVerificationDays" className="form-label-tech">
+                  MAX VERIFICATION AGE (DAYS)
+                </label>
+                <input
+                  type="number"
+                  id="maxVerificationDays"
+                  value={maxVerificationDays}
+                  onChange={(e) => setMaxVerificationDays(e.target.value)}
+                  min="0"
+                  className="form-input-tech"
+                  placeholder="0"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Approvals older than this are rejected for this project. 0 uses the global validity period.
+                </p>
+              </div>
+
+              <div className="form-tech">
+                <label htmlFor="minTier" className="form-label-tech">
+                  MINIMUM ASSURANCE TIER
+                </label>
+                <select
+                  id="minTier"
+                  value={minTier}
+                  onChange={(e) => setMinTier(Number(e.target.value) as KYCTier)}
+                  className="form-input-tech"
+                >
+                  {Object.values(KYC_TIERS).map((tier) => (
+                    <option key={tier} value={tier}>
+                      {tier === KYC_TIERS.NONE ? 'Any tier' : KYC_TIER_LABELS[tier]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Users approved at a lower tier are not eligible for this project.
+                </p>
+              </div>
+
+              <div className="form-tech">
+                <label className="flex items-center space-x-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={requireAccredited}
+                    onChange={(e) => setRequireAccredited(e.target.checked)}
+                    className="form-checkbox text-cyan-400 bg-gray-700 border-gray-600 rounded focus:ring-cyan-400 focus:ring-2"
+                  />
+                  <span className="text-sm text-white">Accredited investors only</span>
+                </label>
+              </div>
+
+              <div className="form-tech">
+                <label htmlFor="minIncomeBand" className="form-label-tech">
+                  MINIMUM INCOME / NET-WORTH BAND
+                </label>
+                <select
+                  id="minIncomeBand"
+                  value={minIncomeBand}
+                  onChange={(e) => setMinIncomeBand(Number(e.target.value) as IncomeBand)}
+                  className="form-input-tech"
+                >
+                  {Object.values(INCOME_BANDS).map((band) => (
+                    <option key={band} value={band}>
+                      {band === INCOME_BANDS.NOT_ASSESSED ? 'Any band' : `${INCOME_BAND_LABELS[band]} or higher`}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-400 mt-1">
+                  Users without verifier-assessed investor attributes fail both requirements.
+                </p>
+              </div>
+
+              <div className="form-tech">
+                <label htmlFor="maxRiskScore" className="form-label-tech">
+                  MAXIMUM AML RISK SCORE
+                </label>
+                <input
+                  type="number"
+                  id="maxRiskScore"
+                  value={maxRiskScore}
+                  onChange={(e) => setMaxRiskScore(e.target.value)}
+                  min="0"
+                  max={MAX_RISK_SCORE}
+                  className="form-input-tech"
+                  placeholder="0"
                 />
+                <p className="text-xs text-gray-400 mt-1">
+                  Users scored above this are not eligible, nor are users without a score. 0 disables the check.
+                </p>
               </div>
 
               <div className="alert-tech alert-tech-info border-2 border-cyan-400/50 bg-cyan-900/20">
@@ -364,7 +1234,7 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
               <div className="mt-8">
                 <button
                   type="submit"
-                  disabled={isSubmitting || isConfirming || !projectName}
+                  disabled={isSubmitting || isConfirming || !isAddress(projectName) || !minAge || selectedCountries.length === 0}
                   className="btn-tech w-full glow-cyan pulse-glow"
                   style={{ width: '100%' }}
                 >
@@ -400,21 +1270,14 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
                 />
               </div>
 
-              {projectRequirements && (
+              {hasProjectPolicy && (
                 <div className="card-tech p-4 border-green-500/30">
-                  <h4 className="text-md font-semibold text-white mb-3">PROJECT STATUS</h4>
-                  <div className="space-y-2">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm font-medium text-gray-300">PROJECT ACTIVE:</span>
-                      <span className="text-sm font-semibold px-3 py-1 rounded bg-green-900/30 text-green-400 border border-green-500/30">
-                        {projectRequirements ? 'ACTIVE' : 'INACTIVE'}
-                      </span>
-                    </div>
-                  </div>
+                  <h4 className="text-md font-semibold text-white mb-3">PROJECT POLICY</h4>
+                  <ProjectPolicyDetails requirements={projectRequirements} />
                 </div>
               )}
 
-              {isValidAddress && !projectRequirements && (
+              {isValidAddress && !hasProjectPolicy && (
                 <div className="card-tech p-4 border-gray-500/30">
                   <p className="text-sm text-gray-400">No active project found at this address.</p>
                 </div>
@@ -425,4 +1288,82 @@ export default function UnifiedVerifyPanel({ userAddress }: UnifiedVerifyPanelPr
       )}
     </div>
   )
+}
+
+interface ProjectPolicyDetailsProps {
+  requirements: {
+    minAge: number
+    allowedCountryMask: bigint
+    acceptedDocumentTypes: number
+    isActive: boolean
+    maxVerificationAge: bigint
+    minTier: number
+    requireAccredited: boolean
+    minIncomeBand: number
+    maxRiskScore: number
+    policyHash: `0x${string}`
+  }
+}
+
+function ProjectPolicyDetails({ requirements }: ProjectPolicyDetailsProps) {
+  const countryNames = countryNamesFromMask(requirements.allowedCountryMask)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">PROJECT ACTIVE:</span>
+        <span className={`text-sm font-semibold px-3 py-1 rounded ${
+          requirements.isActive
+            ? 'bg-green-900/30 text-green-400 border border-green-500/30'
+            : 'bg-red-900/30 text-red-400 border border-red-500/30'
+        }`}>
+          {requirements.isActive ? 'ACTIVE' : 'INACTIVE'}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">MINIMUM AGE:</span>
+        <span className="text-sm text-white">{requirements.minAge} years</span>
+      </div>
+      <div className="flex justify-between items-start">
+        <span className="text-sm font-medium text-gray-300">ALLOWED COUNTRIES:</span>
+        <span className="text-sm text-white text-right max-w-xs">{countryNames.join(', ')}</span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">ACCEPTED DOCUMENTS:</span>
+        <span className="text-sm text-white text-right max-w-xs">
+          {requirements.acceptedDocumentTypes > 0 ? documentTypeNamesFromMask(requirements.acceptedDocumentTypes).join(', ') : 'Any'}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">MAX VERIFICATION AGE:</span>
+        <span className="text-sm text-white">
+          {requirements.maxVerificationAge > 0n ? `${requirements.maxVerificationAge / SECONDS_PER_DAY} days` : 'Global default'}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">MINIMUM TIER:</span>
+        <span className="text-sm text-white text-right max-w-xs">
+          {requirements.minTier > KYC_TIERS.NONE ? KYC_TIER_LABELS[requirements.minTier as KYCTier] : 'Any'}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">ACCREDITED ONLY:</span>
+        <span className="text-sm text-white">{requirements.requireAccredited ? 'Yes' : 'No'}</span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">MINIMUM INCOME BAND:</span>
+        <span className="text-sm text-white text-right max-w-xs">
+          {requirements.minIncomeBand > INCOME_BANDS.NOT_ASSESSED ? INCOME_BAND_LABELS[requirements.minIncomeBand as IncomeBand] : 'Any'}
+        </span>
+      </div>
+      <div className="flex justify-between items-center">
+        <span className="text-sm font-medium text-gray-300">MAX RISK SCORE:</span>
+        <span className="text-sm text-white">{requirements.maxRiskScore > 0 ? requirements.maxRiskScore : 'No limit'}</span>
+      </div>
+      <div className="flex justify-between items-start">
+        <span className="text-sm font-medium text-gray-300">POLICY HASH:</span>
+        <span className="text-xs text-cyan-400 font-mono break-all text-right max-w-xs">{requirements.policyHash}</span>
+      </div>
+    </div>
+  )
 }
\ No newline at end of file
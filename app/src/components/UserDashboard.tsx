@@ -1,27 +1,68 @@
-import { useState } from 'react'
-import { useReadContract } from 'wagmi'
+import { useEffect, useState } from 'react'
+import { useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
 import { useWalletClient } from 'wagmi'
+import { isAddress, maxUint256 } from 'viem'
 import { SecureKYCABI } from '../contracts/SecureKYC'
 import { CONTRACT_ADDRESS } from '../config/wagmi'
-import { COUNTRY_CODES } from '../config/fhe'
-import { addressToPassport } from '../utils/passportUtils'
+import {
+  COUNTRY_CODES,
+  DOCUMENT_TYPE_LABELS,
+  INCOME_BAND_LABELS,
+  KYC_STATUS,
+  KYC_TIER_LABELS,
+  REJECTION_REASONS,
+  type DocumentType,
+  type IncomeBand,
+  type KYCTier
+} from '../config/fhe'
+import { addressToDocumentNumber } from '../utils/passportUtils'
+import { formatPackedDate } from '../utils/dateUtils'
+import KYCSubmissionForm from './KYCSubmissionForm'
 import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle'
 
 interface UserDashboardProps {
   fheInstance: FhevmInstance
   userAddress: `0x${string}` | undefined
+  isSubmitPaused: boolean
+  isAssignPaused: boolean
+  isProofPaused: boolean
 }
 
-export default function UserDashboard({ fheInstance, userAddress }: UserDashboardProps) {
+function formatCountdown(seconds: number): string {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  return `${days}d ${hours}h ${minutes}m`
+}
+
+export default function UserDashboard({
+  fheInstance,
+  userAddress,
+  isSubmitPaused,
+  isAssignPaused,
+  isProofPaused
+}: UserDashboardProps) {
   const [isDecrypting, setIsDecrypting] = useState(false)
+  const [isResubmitting, setIsResubmitting] = useState(false)
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  // Tick once a minute to keep the expiry countdown current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60_000)
+    return () => clearInterval(interval)
+  }, [])
   const [decryptedData, setDecryptedData] = useState<{
-    passportNumber?: string
-    birthYear?: number
+    documentType?: string
+    documentNumber?: string
+    documentExpiry?: string
+    dateOfBirth?: string
     countryCode?: string
+    accredited?: string
+    incomeBand?: string
   } | null>(null)
 
   // Get user's verification status
-  const { data: verificationStatus } = useReadContract({
+  const { data: verificationStatus, refetch: refetchVerificationStatus } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: SecureKYCABI,
     functionName: 'getVerificationStatus',
@@ -29,8 +70,24 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
     query: { enabled: !!userAddress }
   })
 
+  // Get review status (pending / approved / rejected) and rejection reason
+  const { data: kycStatus, refetch: refetchKycStatus } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getKYCStatus',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+  const hasNoRecord = kycStatus?.[0] === KYC_STATUS.NONE
+  const isApproved = kycStatus?.[0] === KYC_STATUS.APPROVED
+  const isRejected = kycStatus?.[0] === KYC_STATUS.REJECTED
+  const isPending = kycStatus?.[0] === KYC_STATUS.PENDING
+  const isRevoked = kycStatus?.[0] === KYC_STATUS.REVOKED
+  const isExpired = kycStatus?.[0] === KYC_STATUS.APPROVED && verificationStatus?.[0] === false
+  const secondsUntilExpiry = verificationStatus ? Number(verificationStatus[3]) - now : 0
+
   // Get user's encrypted KYC data
-  const { data: kycData } = useReadContract({
+  const { data: kycData, refetch: refetchKycData } = useReadContract({
     address: CONTRACT_ADDRESS,
     abi: SecureKYCABI,
     functionName: 'getUserKYCData',
@@ -38,9 +95,237 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
     query: { enabled: !!userAddress }
   })
 
+  // Get investor attributes, which stay unset until a verifier assesses them
+  const { data: investorAttributes, refetch: refetchInvestorAttributes } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getInvestorAttributes',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+  const hasInvestorAttributes = !!investorAttributes &&
+    investorAttributes[0] !== '0x0000000000000000000000000000000000000000000000000000000000000000'
+
 
   const { data: walletClient } = useWalletClient()
 
+  // Projects the user already holds an eligibility proof for
+  const [proofProjectAddress, setProofProjectAddress] = useState('')
+  const { data: proofProjects, refetch: refetchProofProjects } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getProofProjects',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+
+  const { writeContract, data: proofHash, isPending: isGeneratingProof } = useWriteContract()
+  const { isLoading: isConfirmingProof, isSuccess: isProofConfirmed } = useWaitForTransactionReceipt({ hash: proofHash })
+
+  useEffect(() => {
+    if (isProofConfirmed) {
+      refetchProofProjects()
+      setProofProjectAddress('')
+    }
+  }, [isProofConfirmed, refetchProofProjects])
+
+  // Projects the user has allowed to run eligibility checks
+  const [consentProjectAddress, setConsentProjectAddress] = useState('')
+  const [consentDays, setConsentDays] = useState('')
+  const { data: consents, refetch: refetchConsents } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getConsents',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+
+  const { writeContract: writeConsent, data: consentHash, isPending: isUpdatingConsent } = useWriteContract()
+  const { isLoading: isConfirmingConsent, isSuccess: isConsentConfirmed } = useWaitForTransactionReceipt({ hash: consentHash })
+
+  useEffect(() => {
+    if (isConsentConfirmed) {
+      refetchConsents()
+      setConsentProjectAddress('')
+      setConsentDays('')
+    }
+  }, [isConsentConfirmed, refetchConsents])
+
+  // Verifier the user picked to review their pending submission
+  const [verifierToAssign, setVerifierToAssign] = useState('')
+  const { data: assignedVerifier, refetch: refetchAssignedVerifier } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'getAssignedVerifier',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+  const hasAssignedVerifier = !!assignedVerifier && assignedVerifier !== '0x0000000000000000000000000000000000000000'
+
+  const { writeContract: writeAssignment, data: assignmentHash, isPending: isAssigning } = useWriteContract()
+  const { isLoading: isConfirmingAssignment, isSuccess: isAssignmentConfirmed } = useWaitForTransactionReceipt({ hash: assignmentHash })
+
+  useEffect(() => {
+    if (isAssignmentConfirmed) {
+      refetchAssignedVerifier()
+      setVerifierToAssign('')
+    }
+  }, [isAssignmentConfirmed, refetchAssignedVerifier])
+
+  // Moving the record to another wallet: this wallet's outgoing migration, or one offered to it
+  const [migrationTarget, setMigrationTarget] = useState('')
+  const [migrationSource, setMigrationSource] = useState('')
+  const { data: outgoingMigration, refetch: refetchOutgoingMigration } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'walletMigrations',
+    args: userAddress ? [userAddress] : undefined,
+    query: { enabled: !!userAddress }
+  })
+  const { data: incomingMigration } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'walletMigrations',
+    args: isAddress(migrationSource) ? [migrationSource] : undefined,
+    query: { enabled: isAddress(migrationSource) }
+  })
+  const { data: migrationRequiresVerifier } = useReadContract({
+    address: CONTRACT_ADDRESS,
+    abi: SecureKYCABI,
+    functionName: 'migrationRequiresVerifier'
+  })
+  const hasOutgoingMigration = !!outgoingMigration && outgoingMigration[0] !== '0x0000000000000000000000000000000000000000'
+  const isIncomingForMe = !!incomingMigration && incomingMigration[0].toLowerCase() === userAddress?.toLowerCase()
+  const canAcceptMigration = isIncomingForMe && (!migrationRequiresVerifier || incomingMigration[1])
+
+  const { writeContract: writeMigration, data: migrationHash, isPending: isMigrating } = useWriteContract()
+  const { isLoading: isConfirmingMigration, isSuccess: isMigrationConfirmed } = useWaitForTransactionReceipt({ hash: migrationHash })
+
+  useEffect(() => {
+    if (isMigrationConfirmed) {
+      refetchOutgoingMigration()
+      refetchVerificationStatus()
+      refetchKycStatus()
+      refetchKycData()
+      refetchInvestorAttributes()
+      setMigrationTarget('')
+      setMigrationSource('')
+    }
+  }, [isMigrationConfirmed, refetchOutgoingMigration, refetchVerificationStatus, refetchKycStatus, refetchKycData, refetchInvestorAttributes])
+
+  const handleInitiateMigration = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddress(migrationTarget)) return
+
+    writeMigration({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'initiateMigration',
+      args: [migrationTarget]
+    })
+  }
+
+  const handleCancelMigration = () => {
+    writeMigration({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'cancelMigration'
+    })
+  }
+
+  const handleAcceptMigration = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddress(migrationSource)) return
+
+    writeMigration({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'acceptMigration',
+      args: [migrationSource]
+    })
+  }
+
+  // Right to erasure: the user types DELETE to confirm before the record is removed
+  const [isDeletionRequested, setIsDeletionRequested] = useState(false)
+  const [deletionConfirmation, setDeletionConfirmation] = useState('')
+  const { writeContract: writeDeletion, data: deletionHash, isPending: isDeleting } = useWriteContract()
+  const { isLoading: isConfirmingDeletion, isSuccess: isDeletionConfirmed } = useWaitForTransactionReceipt({ hash: deletionHash })
+
+  useEffect(() => {
+    if (isDeletionConfirmed) {
+      refetchVerificationStatus()
+      refetchKycStatus()
+      refetchKycData()
+      refetchInvestorAttributes()
+      refetchProofProjects()
+      refetchConsents()
+      refetchOutgoingMigration()
+      setDecryptedData(null)
+      setIsDeletionRequested(false)
+      setDeletionConfirmation('')
+    }
+  }, [isDeletionConfirmed, refetchVerificationStatus, refetchKycStatus, refetchKycData, refetchInvestorAttributes, refetchProofProjects, refetchConsents, refetchOutgoingMigration])
+
+  const handleDeleteKYC = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (deletionConfirmation !== 'DELETE') return
+
+    writeDeletion({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'deleteKYC'
+    })
+  }
+
+  const handleAssignVerifier = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddress(verifierToAssign)) return
+
+    writeAssignment({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'assignVerifier',
+      args: [verifierToAssign]
+    })
+  }
+
+  // Whole days only; BigInt would throw on decimals or exponents the number input lets through
+  const isConsentDaysValid = /^\d*$/.test(consentDays)
+
+  const handleGrantConsent = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddress(consentProjectAddress) || !isConsentDaysValid) return
+
+    const days = BigInt(consentDays || '0')
+    writeConsent({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'grantConsent',
+      args: [consentProjectAddress, days > 0n ? BigInt(now) + days * 86400n : 0n]
+    })
+  }
+
+  const handleRevokeConsent = (projectAddress: `0x${string}`) => {
+    writeConsent({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'revokeConsent',
+      args: [projectAddress]
+    })
+  }
+
+  const handleGenerateProof = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isAddress(proofProjectAddress)) return
+
+    writeContract({
+      address: CONTRACT_ADDRESS,
+      abi: SecureKYCABI,
+      functionName: 'generateProof',
+      args: [proofProjectAddress]
+    })
+  }
+
 
   const handleDecryptData = async () => {
     if (!fheInstance || !userAddress || !walletClient || !kycData) return
@@ -54,10 +339,18 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
       
       // Prepare handle-contract pairs for all encrypted data
       const handleContractPairs = [
-        { handle: kycData[0], contractAddress: CONTRACT_ADDRESS }, // passport address
-        { handle: kycData[1], contractAddress: CONTRACT_ADDRESS }, // birth year
+        { handle: kycData[0], contractAddress: CONTRACT_ADDRESS }, // document number
+        { handle: kycData[1], contractAddress: CONTRACT_ADDRESS }, // date of birth
         { handle: kycData[2], contractAddress: CONTRACT_ADDRESS }, // country code
+        { handle: kycData[3], contractAddress: CONTRACT_ADDRESS }, // document type
+        { handle: kycData[4], contractAddress: CONTRACT_ADDRESS }, // document expiry
       ]
+      if (hasInvestorAttributes) {
+        handleContractPairs.push(
+          { handle: investorAttributes[0], contractAddress: CONTRACT_ADDRESS }, // accredited
+          { handle: investorAttributes[1], contractAddress: CONTRACT_ADDRESS }, // income band
+        )
+      }
 
       const startTimeStamp = Math.floor(Date.now() / 1000).toString()
       const durationDays = "30"
@@ -91,18 +384,24 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
 
       console.log('Decryption result:', result)
 
-      // Convert passport address back to passport number
-      const passportAddress = result[kycData[0]] as string
-      const passportNumber = addressToPassport(passportAddress as `0x${string}`)
+      // Convert document address back to document number using its type's format
+      const documentType = Number(result[kycData[3]])
+      const documentNumber = addressToDocumentNumber(documentType, result[kycData[0]] as `0x${string}`)
 
       // Convert country code back to country name
       const countryCodeNum = Number(result[kycData[2]])
       const countryName = Object.keys(COUNTRY_CODES).find(key => COUNTRY_CODES[key as keyof typeof COUNTRY_CODES] === countryCodeNum)
 
       setDecryptedData({
-        passportNumber: passportNumber || 'Invalid',
-        birthYear: Number(result[kycData[1]]),
-        countryCode: countryName || 'Unknown'
+        documentType: DOCUMENT_TYPE_LABELS[documentType as DocumentType] ?? 'Unknown',
+        documentNumber: documentNumber || 'Invalid',
+        documentExpiry: formatPackedDate(result[kycData[4]] as bigint),
+        dateOfBirth: formatPackedDate(result[kycData[1]] as bigint),
+        countryCode: countryName || 'Unknown',
+        accredited: hasInvestorAttributes ? (result[investorAttributes[0]] ? 'Yes' : 'No') : undefined,
+        incomeBand: hasInvestorAttributes
+          ? INCOME_BAND_LABELS[Number(result[investorAttributes[1]]) as IncomeBand] ?? 'Unknown'
+          : undefined
       })
       
       console.log('Decryption completed successfully')
@@ -115,8 +414,68 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
   }
 
 
+  if (isResubmitting) {
+    return (
+      <div className="space-y-6 slide-in-up">
+        <KYCSubmissionForm fheInstance={fheInstance} userAddress={userAddress} isResubmission isPaused={isSubmitPaused} />
+        <button
+          onClick={() => setIsResubmitting(false)}
+          className="text-xs text-cyan-400 hover:text-cyan-300 underline"
+        >
+          BACK TO DASHBOARD
+        </button>
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-8 slide-in-up">
+      {/* Rejection Banner */}
+      {isRejected && kycStatus && (
+        <div className="alert-tech alert-tech-error">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-semibold mb-2 text-sm">KYC SUBMISSION REJECTED</h3>
+              <p className="text-sm opacity-90 leading-relaxed">
+                A verifier rejected your submission. Reason: <strong>{REJECTION_REASONS[kycStatus[1]] ?? `Code ${kycStatus[1]}`}</strong>
+              </p>
+              <p className="text-xs opacity-75 mt-2">
+                Correct your details and resubmit to return to the verification queue.
+              </p>
+            </div>
+            <button
+              onClick={() => setIsResubmitting(true)}
+              className="btn-tech-small glow-cyan whitespace-nowrap"
+            >
+              RESUBMIT KYC
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Revocation Banner */}
+      {isRevoked && (
+        <div className="alert-tech alert-tech-error">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h3 className="font-semibold mb-2 text-sm">VERIFICATION REVOKED</h3>
+              <p className="text-sm opacity-90 leading-relaxed">
+                The verifier who approved your KYC is no longer authorized, so your approval was revoked.
+              </p>
+              <p className="text-xs opacity-75 mt-2">
+                Resubmit your details to be verified again by an active verifier.
+              </p>
+            </div>
+            <button
+              onClick={() => setIsResubmitting(true)}
+              className="btn-tech-small glow-cyan whitespace-nowrap"
+            >
+              RESUBMIT KYC
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Verification Status Card */}
       <div className="card-tech p-6 glow-cyan">
         <div className="flex items-center space-x-3 mb-6">
@@ -133,11 +492,25 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
               <div className={`inline-flex items-center px-3 py-1 rounded text-xs font-semibold border ${
                 verificationStatus[0] 
                   ? 'bg-green-900/30 text-green-400 border-green-500/30' 
-                  : 'bg-yellow-900/30 text-yellow-400 border-yellow-500/30'
+                  : isRejected || isRevoked || isExpired
+                    ? 'bg-red-900/30 text-red-400 border-red-500/30'
+                    : 'bg-yellow-900/30 text-yellow-400 border-yellow-500/30'
               }`}>
-                {verificationStatus[0] ? 'VERIFIED' : 'PENDING VERIFICATION'}
+                {verificationStatus[0] ? 'VERIFIED' : isRejected ? 'REJECTED' : isRevoked ? 'REVOKED' : isExpired ? 'EXPIRED' : 'PENDING VERIFICATION'}
               </div>
             </div>
+
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-300">EXPIRES IN:</span>
+              <span className={`text-sm font-semibold font-mono ${
+                secondsUntilExpiry < 30 * 86400 ? 'text-yellow-400' : 'text-white'
+              }`}>
+                {verificationStatus[0]
+                  ? formatCountdown(Math.max(secondsUntilExpiry, 0))
+                  : '---'
+                }
+              </span>
+            </div>
             
             <div className="flex items-center space-x-3">
               <span className="text-sm font-medium text-gray-300">VERIFICATION DATE:</span>
@@ -158,6 +531,16 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
                 }
               </span>
             </div>
+
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-300">ASSURANCE TIER:</span>
+              <span className="text-sm font-semibold text-white">
+                {verificationStatus[0]
+                  ? KYC_TIER_LABELS[verificationStatus[6] as KYCTier] ?? `Tier ${verificationStatus[6]}`
+                  : '---'
+                }
+              </span>
+            </div>
           </div>
         ) : (
           <div className="text-center py-6">
@@ -196,13 +579,13 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
                     <div className="flex items-center space-x-2">
                       <span className={`w-2 h-2 rounded-full ${kycData[0] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'bg-green-400' : 'bg-red-400'}`}></span>
                       <span className="text-xs text-white font-mono">
-                        PASSPORT: {kycData[0] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'ENCRYPTED ✓' : 'NOT SET'}
+                        DOCUMENT: {kycData[0] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'ENCRYPTED ✓' : 'NOT SET'}
                       </span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <span className={`w-2 h-2 rounded-full ${kycData[1] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'bg-green-400' : 'bg-red-400'}`}></span>
                       <span className="text-xs text-white font-mono">
-                        BIRTH YEAR: {kycData[1] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'ENCRYPTED ✓' : 'NOT SET'}
+                        DATE OF BIRTH: {kycData[1] !== '0x0000000000000000000000000000000000000000000000000000000000000000' ? 'ENCRYPTED ✓' : 'NOT SET'}
                       </span>
                     </div>
                     <div className="flex items-center space-x-2">
@@ -217,17 +600,33 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
                     <h4 className="font-semibold text-white mb-4">DECRYPTED PERSONAL DATA</h4>
                     <div className="flex flex-wrap gap-4 justify-center md:justify-start">
                       <div className="text-center">
-                        <p className="text-xs text-gray-300 mb-1">PASSPORT NUMBER</p>
-                        <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.passportNumber}</p>
+                        <p className="text-xs text-gray-300 mb-1">{decryptedData.documentType?.toUpperCase()} NUMBER</p>
+                        <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.documentNumber}</p>
                       </div>
                       <div className="text-center">
-                        <p className="text-xs text-gray-300 mb-1">BIRTH YEAR</p>
-                        <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.birthYear}</p>
+                        <p className="text-xs text-gray-300 mb-1">DOCUMENT EXPIRY</p>
+                        <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.documentExpiry}</p>
+                      </div>
+                      <div className="text-center">
+                        <p className="text-xs text-gray-300 mb-1">DATE OF BIRTH</p>
+                        <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.dateOfBirth}</p>
                       </div>
                       <div className="text-center">
                         <p className="text-xs text-gray-300 mb-1">COUNTRY</p>
                         <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.countryCode}</p>
                       </div>
+                      {decryptedData.accredited && (
+                        <>
+                          <div className="text-center">
+                            <p className="text-xs text-gray-300 mb-1">ACCREDITED INVESTOR</p>
+                            <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.accredited}</p>
+                          </div>
+                          <div className="text-center">
+                            <p className="text-xs text-gray-300 mb-1">INCOME BAND</p>
+                            <p className="text-sm text-green-400 font-mono font-bold">{decryptedData.incomeBand}</p>
+                          </div>
+                        </>
+                      )}
                     </div>
                     <div className="mt-6 flex items-center justify-between">
                       <p className="text-xs text-gray-400">Data decrypted successfully using your private key</p>
@@ -265,11 +664,231 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
               </div>
             </div>
           </div>
+
+          <form onSubmit={handleGenerateProof} className="mt-6 space-y-3">
+            <div className="form-tech">
+              <label htmlFor="proofProjectAddress" className="form-label-tech">
+                GENERATE PROOF FOR PROJECT
+              </label>
+              <input
+                type="text"
+                id="proofProjectAddress"
+                value={proofProjectAddress}
+                onChange={(e) => setProofProjectAddress(e.target.value)}
+                className="form-input-tech"
+                placeholder="0x... (registered project address)"
+              />
+              <p className="text-xs text-gray-400 mt-1">
+                The proof is evaluated against the project's stored policy and can be decrypted by you and the project.
+              </p>
+            </div>
+            <button
+              type="submit"
+              disabled={isProofPaused || isGeneratingProof || isConfirmingProof || !isAddress(proofProjectAddress)}
+              className="btn-tech-small glow-cyan"
+            >
+              {isProofPaused
+                ? 'PROOF GENERATION PAUSED'
+                : isGeneratingProof || isConfirmingProof ? 'GENERATING PROOF...' : 'GENERATE PROOF'}
+            </button>
+          </form>
+
+          <div className="mt-6">
+            <h4 className="text-sm font-semibold text-gray-300 mb-2">PROOFS HELD</h4>
+            {proofProjects && proofProjects.length > 0 ? (
+              <ul className="space-y-1">
+                {proofProjects.map(project => (
+                  <li key={project} className="text-xs text-green-400 font-mono break-all">{project}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-400">No proofs generated yet</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Consent Management */}
+      <div className="card-tech p-6 border-cyan-500/30">
+        <h3 className="text-lg font-semibold text-white mb-2">CONSENT MANAGEMENT</h3>
+        <p className="text-xs text-gray-400 mb-4">
+          Projects can only check your eligibility after you grant them consent. You can revoke it at any time.
+        </p>
+
+        <form onSubmit={handleGrantConsent} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="form-tech md:col-span-2">
+            <label htmlFor="consentProjectAddress" className="form-label-tech">
+              PROJECT ADDRESS
+            </label>
+            <input
+              type="text"
+              id="consentProjectAddress"
+              value={consentProjectAddress}
+              onChange={(e) => setConsentProjectAddress(e.target.value)}
+              className="form-input-tech"
+              placeholder="0x..."
+            />
+          </div>
+          <div className="form-tech">
+            <label htmlFor="consentDays" className="form-label-tech">
+              VALID FOR (DAYS)
+            </label>
+            <input
+              type="number"
+              id="consentDays"
+              value={consentDays}
+              onChange={(e) => setConsentDays(e.target.value)}
+              min="0"
+              step="1"
+              className="form-input-tech"
+              placeholder="0 = no limit"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={isUpdatingConsent || isConfirmingConsent || !isAddress(consentProjectAddress) || !isConsentDaysValid}
+            className="btn-tech-small glow-cyan md:col-span-3"
+          >
+            {isUpdatingConsent || isConfirmingConsent ? 'UPDATING CONSENT...' : 'GRANT CONSENT'}
+          </button>
+        </form>
+
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">CONSENTED PROJECTS</h4>
+          {consents && consents[0].length > 0 ? (
+            <ul className="space-y-2">
+              {consents[0].map((project, i) => {
+                const expiresAt = consents[1][i]
+                const isUnlimited = expiresAt === maxUint256
+                const isLapsed = !isUnlimited && Number(expiresAt) < now
+                return (
+                  <li key={project} className="flex flex-wrap items-center justify-between gap-2 bg-gray-800/30 p-3 rounded border border-gray-600/30">
+                    <span className="text-xs text-white font-mono break-all">{project}</span>
+                    <span className={`text-xs ${isLapsed ? 'text-red-400' : 'text-green-400'}`}>
+                      {isUnlimited ? 'NO TIME LIMIT' : isLapsed ? 'LAPSED' : `UNTIL ${new Date(Number(expiresAt) * 1000).toLocaleDateString()}`}
+                    </span>
+                    <button
+                      onClick={() => handleRevokeConsent(project)}
+                      disabled={isUpdatingConsent || isConfirmingConsent}
+                      className="text-xs text-red-400 hover:text-red-300 underline"
+                    >
+                      REVOKE
+                    </button>
+                  </li>
+                )
+              })}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-400">No projects have your consent</p>
+          )}
+        </div>
+      </div>
+
+      {/* Wallet Migration */}
+      {isApproved && (
+        <div className="card-tech p-6 border-cyan-500/30">
+          <h3 className="text-lg font-semibold text-white mb-2">MOVE MY KYC</h3>
+          <p className="text-xs text-gray-400 mb-4">
+            Move your verified record to a new wallet without verifying again. The new wallet accepts the move from its own dashboard.
+            Consents and proofs stay with this wallet.
+          </p>
+
+          {hasOutgoingMigration ? (
+            <div className="flex flex-wrap items-center justify-between gap-3 bg-gray-800/30 p-3 rounded border border-gray-600/30">
+              <div>
+                <p className="text-xs text-gray-300">PENDING MOVE TO</p>
+                <p className="text-xs text-cyan-400 font-mono break-all">{outgoingMigration[0]}</p>
+                {migrationRequiresVerifier && (
+                  <p className={`text-xs mt-1 ${outgoingMigration[1] ? 'text-green-400' : 'text-yellow-400'}`}>
+                    {outgoingMigration[1] ? 'APPROVED BY A VERIFIER' : 'AWAITING VERIFIER APPROVAL'}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={handleCancelMigration}
+                disabled={isMigrating || isConfirmingMigration}
+                className="text-xs text-red-400 hover:text-red-300 underline"
+              >
+                CANCEL MOVE
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleInitiateMigration} className="space-y-3">
+              <div className="form-tech">
+                <label htmlFor="migrationTarget" className="form-label-tech">
+                  NEW WALLET ADDRESS
+                </label>
+                <input
+                  type="text"
+                  id="migrationTarget"
+                  value={migrationTarget}
+                  onChange={(e) => setMigrationTarget(e.target.value)}
+                  className="form-input-tech"
+                  placeholder="0x..."
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isMigrating || isConfirmingMigration || !isAddress(migrationTarget)}
+                className="btn-tech-small glow-cyan"
+              >
+                {isMigrating || isConfirmingMigration ? 'STARTING MOVE...' : 'MOVE MY KYC'}
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+
+      {hasNoRecord && (
+        <div className="card-tech p-6 border-cyan-500/30">
+          <h3 className="text-lg font-semibold text-white mb-2">RECEIVE A KYC RECORD</h3>
+          <p className="text-xs text-gray-400 mb-4">
+            Moving from another wallet? Start the move there, then accept it here to take over its verified record.
+          </p>
+          <form onSubmit={handleAcceptMigration} className="space-y-3">
+            <div className="form-tech">
+              <label htmlFor="migrationSource" className="form-label-tech">
+                PREVIOUS WALLET ADDRESS
+              </label>
+              <input
+                type="text"
+                id="migrationSource"
+                value={migrationSource}
+                onChange={(e) => setMigrationSource(e.target.value)}
+                className="form-input-tech"
+                placeholder="0x..."
+              />
+              {isAddress(migrationSource) && incomingMigration && !isIncomingForMe && (
+                <p className="mt-2 text-xs text-red-400">That wallet has no pending move to this address</p>
+              )}
+              {isIncomingForMe && !canAcceptMigration && (
+                <p className="mt-2 text-xs text-yellow-400">Waiting for a verifier to approve the move</p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={isMigrating || isConfirmingMigration || !canAcceptMigration}
+              className="btn-tech-small glow-cyan"
+            >
+              {isMigrating || isConfirmingMigration ? 'ACCEPTING MOVE...' : 'ACCEPT MOVE'}
+            </button>
+          </form>
         </div>
       )}
 
+      {isExpired && (
+        <div className="card-tech p-8 border-red-500/30">
+          <div className="text-center">
+            <h3 className="text-xl font-semibold text-white mb-4">VERIFICATION EXPIRED</h3>
+            <p className="text-gray-300 leading-relaxed">
+              Your KYC approval is older than the allowed validity period, so projects can no longer check your eligibility.
+              An authorized validator needs to re-verify your submission.
+            </p>
+          </div>
+        </div>
+      )}
 
-      {!verificationStatus?.[0] && verificationStatus !== undefined && (
+      {isPending && (
         <div className="card-tech p-8 border-yellow-500/30">
           <div className="text-center">
             <h3 className="text-xl font-semibold text-white mb-4">VERIFICATION PENDING</h3>
@@ -281,6 +900,99 @@ export default function UserDashboard({ fheInstance, userAddress }: UserDashboar
               <span className="text-yellow-400 font-mono text-sm pulse-glow">/// AWAITING VALIDATION ///</span>
             </div>
           </div>
+
+          <form onSubmit={handleAssignVerifier} className="mt-8 space-y-4">
+            <div className="form-tech">
+              <label htmlFor="verifierToAssign" className="form-label-tech">
+                ASSIGN VERIFIER
+              </label>
+              <input
+                type="text"
+                id="verifierToAssign"
+                value={verifierToAssign}
+                onChange={(e) => setVerifierToAssign(e.target.value)}
+                className="form-input-tech"
+                placeholder="VERIFIER ADDRESS (0x...)"
+              />
+              <p className="mt-3 text-sm text-gray-300">
+                The assigned verifier can decrypt your submission to review it, and is the only one who can approve or reject it.
+              </p>
+              {hasAssignedVerifier && (
+                <p className="mt-2 text-sm text-cyan-400 font-mono break-all">ASSIGNED: {assignedVerifier}</p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={isAssignPaused || isAssigning || isConfirmingAssignment || !isAddress(verifierToAssign)}
+              className="btn-tech w-full glow-cyan"
+              style={{ width: '100%' }}
+            >
+              <span>
+                {isAssignPaused
+                  ? 'ASSIGNMENT PAUSED'
+                  : isAssigning || isConfirmingAssignment
+                    ? 'ASSIGNING...'
+                    : hasAssignedVerifier
+                      ? 'REASSIGN VERIFIER'
+                      : 'ASSIGN VERIFIER'}
+              </span>
+            </button>
+          </form>
+        </div>
+      )}
+
+      {/* Right to Erasure */}
+      {kycStatus && !hasNoRecord && (
+        <div className="card-tech p-6 border-red-500/30">
+          <h3 className="text-lg font-semibold text-white mb-2">DELETE MY KYC DATA</h3>
+          <p className="text-xs text-gray-400 mb-4">
+            Permanently erase your KYC record together with every eligibility result, proof and consent tied to it.
+            You will need to submit and be verified again to participate in projects.
+          </p>
+
+          {isDeletionRequested ? (
+            <form onSubmit={handleDeleteKYC} className="space-y-3">
+              <div className="form-tech">
+                <label htmlFor="deletionConfirmation" className="form-label-tech">
+                  TYPE DELETE TO CONFIRM
+                </label>
+                <input
+                  type="text"
+                  id="deletionConfirmation"
+                  value={deletionConfirmation}
+                  onChange={(e) => setDeletionConfirmation(e.target.value)}
+                  className="form-input-tech"
+                  placeholder="DELETE"
+                />
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  type="submit"
+                  disabled={isDeleting || isConfirmingDeletion || deletionConfirmation !== 'DELETE'}
+                  className="btn-tech-small border border-red-500/50 text-red-300"
+                >
+                  {isDeleting || isConfirmingDeletion ? 'DELETING...' : 'CONFIRM DELETION'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsDeletionRequested(false)
+                    setDeletionConfirmation('')
+                  }}
+                  className="text-xs text-cyan-400 hover:text-cyan-300 underline"
+                >
+                  KEEP MY DATA
+                </button>
+              </div>
+            </form>
+          ) : (
+            <button
+              onClick={() => setIsDeletionRequested(true)}
+              className="btn-tech-small border border-red-500/50 text-red-300"
+            >
+              DELETE MY KYC DATA
+            </button>
+          )}
         </div>
       )}
     </div>
@@ -1,5 +1,6 @@
 import { createInstance, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
 import { initSDK } from '@zama-fhe/relayer-sdk/bundle';
+import { keccak256, toFunctionSelector, toHex } from 'viem';
 
 export const initFHE = async () => {
   try {
@@ -34,4 +35,134 @@ export const COUNTRY_CODES = {
   'HK': 15
 } as const;
 
-export type CountryCode = keyof typeof COUNTRY_CODES;
\ No newline at end of file
+export type CountryCode = keyof typeof COUNTRY_CODES;
+
+// Policies store allowed countries as a 256-bit mask: bit n allows country code n
+export const toCountryMask = (countryCodes: readonly number[]): bigint => {
+  return countryCodes.reduce((mask, code) => mask | (1n << BigInt(code)), 0n);
+};
+
+export const countryNamesFromMask = (mask: bigint): string[] => {
+  const names: string[] = [];
+  for (let code = 1; code <= 255; code++) {
+    if ((mask >> BigInt(code)) & 1n) {
+      names.push(Object.keys(COUNTRY_CODES).find(key => COUNTRY_CODES[key as CountryCode] === code) ?? `#${code}`);
+    }
+  }
+  return names;
+};
+
+// Keep in sync with MAX_DOCUMENT_TYPE in contracts/SecureKYC.sol
+export const DOCUMENT_TYPES = {
+  PASSPORT: 1,
+  NATIONAL_ID: 2,
+  RESIDENCE_PERMIT: 3,
+  DRIVERS_LICENCE: 4
+} as const;
+
+export type DocumentType = typeof DOCUMENT_TYPES[keyof typeof DOCUMENT_TYPES];
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  1: 'Passport',
+  2: 'National ID card',
+  3: 'Residence permit',
+  4: "Driver's licence"
+};
+
+// Policies store accepted document types as a bitmask: bit n accepts type n, an empty mask accepts any document
+export const toDocumentTypeMask = (documentTypes: readonly number[]): number => {
+  return documentTypes.reduce((mask, type) => mask | (1 << type), 0);
+};
+
+export const documentTypeNamesFromMask = (mask: number): string[] => {
+  return Object.values(DOCUMENT_TYPES)
+    .filter(type => (mask >> type) & 1)
+    .map(type => DOCUMENT_TYPE_LABELS[type]);
+};
+
+// Role identifiers of SecureKYC (keccak256 of the role name)
+export const ROLES = {
+  VERIFIER: keccak256(toHex('VERIFIER_ROLE')),
+  PROJECT_MANAGER: keccak256(toHex('PROJECT_MANAGER_ROLE'))
+} as const;
+
+// Selectors SecureKYC can pause on their own; pausing one also halts its batch variant
+export const PAUSABLE_FUNCTIONS = {
+  SUBMIT: toFunctionSelector('submitKYC(bytes32,bytes32,bytes32,bytes32,bytes32,bytes)'),
+  ASSIGN_VERIFIER: toFunctionSelector('assignVerifier(address)'),
+  VERIFY: toFunctionSelector('verifyKYC(address,bytes32,uint8,bytes32,bytes)'),
+  ADD_BLOCKLIST_ENTRIES: toFunctionSelector('addBlocklistEntries(bytes32[],bytes)'),
+  SCREEN: toFunctionSelector('screenKYC(address,uint256)'),
+  APPROVE_MIGRATION: toFunctionSelector('approveMigration(address)'),
+  CHECK_ELIGIBILITY: toFunctionSelector('checkEligibility(address)'),
+  GENERATE_PROOF: toFunctionSelector('generateProof(address)')
+} as const;
+
+// How often the frontend re-reads the pause state, so a pause shows up without reloading the page
+export const PAUSE_POLL_INTERVAL_MS = 12_000;
+
+// Indexed by SecureKYC.KYCTier; verifiers grant BASIC to FULL, a project policy with NONE accepts any tier
+export const KYC_TIERS = {
+  NONE: 0,
+  BASIC: 1,
+  ENHANCED: 2,
+  FULL: 3
+} as const;
+
+export type KYCTier = typeof KYC_TIERS[keyof typeof KYC_TIERS];
+
+export const KYC_TIER_LABELS: Record<KYCTier, string> = {
+  0: 'None',
+  1: 'Basic (contact details checked)',
+  2: 'Enhanced (identity document checked)',
+  3: 'Full (in-person / enhanced due diligence)'
+};
+
+// Highest AML risk score a verifier can assign; keep in sync with MAX_RISK_SCORE in contracts/SecureKYC.sol
+export const MAX_RISK_SCORE = 100;
+
+// Income or net-worth bands in USD, up to SecureKYC.MAX_INCOME_BAND; NOT_ASSESSED in a project policy accepts any band
+export const INCOME_BANDS = {
+  NOT_ASSESSED: 0,
+  UNDER_50K: 1,
+  FROM_50K: 2,
+  FROM_200K: 3,
+  FROM_1M: 4,
+  OVER_5M: 5
+} as const;
+
+export type IncomeBand = typeof INCOME_BANDS[keyof typeof INCOME_BANDS];
+
+export const INCOME_BAND_LABELS: Record<IncomeBand, string> = {
+  0: 'Not assessed',
+  1: 'Under $50k',
+  2: '$50k - $200k',
+  3: '$200k - $1M',
+  4: '$1M - $5M',
+  5: 'Over $5M'
+};
+
+export const KYC_STATUS = {
+  NONE: 0,
+  PENDING: 1,
+  APPROVED: 2,
+  REJECTED: 3,
+  REVOKED: 4
+} as const;
+
+// Keep in sync with REJECTION_REASONS in tasks/SecureKYC.ts
+export const REJECTION_REASONS: Record<number, string> = {
+  1: 'Document unreadable',
+  2: 'Document expired',
+  3: 'Data mismatch',
+  4: 'Unsupported country',
+  5: 'Suspected fraud'
+};
+
+// Indexed by SecureKYC.EligibilitySkipReason
+export const ELIGIBILITY_SKIP_REASONS: Record<number, string> = {
+  1: 'User not verified',
+  2: 'Consent required',
+  3: 'Verification expired',
+  4: 'Blocklist screening incomplete'
+};
\ No newline at end of file
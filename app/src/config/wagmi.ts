@@ -9,4 +9,9 @@ export const config = getDefaultConfig({
   ssr: false, // If your dApp uses server side rendering (SSR)
 });
 
-export const CONTRACT_ADDRESS = '0x4E8b8D2c1e3AC6392dc0dEc7e3361e62D4774199' as `0x${string}` // TODO: Add deployed contract address
\ No newline at end of file
+// SecureKYC proxy address (deployments/sepolia/SecureKYC.json), which upgrades keep unchanged; set in .env.local
+const contractAddress = import.meta.env.VITE_CONTRACT_ADDRESS
+if (!contractAddress || !/^0x[0-9a-fA-F]{40}$/.test(contractAddress)) {
+  throw new Error('VITE_CONTRACT_ADDRESS must be set to the SecureKYC proxy address (see .env.example)')
+}
+export const CONTRACT_ADDRESS = contractAddress as `0x${string}`
\ No newline at end of file
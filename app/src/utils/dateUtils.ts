@@ -0,0 +1,22 @@
+/**
+ * Pack a date from a date input (date of birth, document expiry) into the YYYYMMDD integer stored on-chain
+ * @param date - Date string in YYYY-MM-DD format (as produced by <input type="date">)
+ * @returns Packed date, e.g. 19900415
+ */
+export function packDate(date: string): bigint {
+  const [year, month, day] = date.split("-").map(Number);
+  if (!year || !month || !day) {
+    throw new Error("Invalid date (expected YYYY-MM-DD)");
+  }
+  return BigInt(year * 10000 + month * 100 + day);
+}
+
+/**
+ * Format a packed YYYYMMDD date for display
+ * @param packed - Packed date as decrypted from the contract
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function formatPackedDate(packed: number | bigint): string {
+  const digits = packed.toString().padStart(8, "0");
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+}
@@ -1,4 +1,5 @@
-import { keccak256, toBytes } from 'viem'
+import { encodePacked, keccak256, toBytes, toHex } from 'viem'
+import { DOCUMENT_TYPES, DOCUMENT_TYPE_LABELS, type DocumentType } from '../config/fhe'
 
 /**
  * Convert passport number to EVM address (reversible)
@@ -58,6 +59,83 @@ export function addressToPassport(address: `0x${string}`): string | null {
   }
 }
 
+/**
+ * Per-type rules for normalizing a document number before it is encoded as an address.
+ * Separators printed on the document are stripped except where they are part of the number.
+ */
+const DOCUMENT_NUMBER_FORMATS: Record<DocumentType, { strip: RegExp; pattern: RegExp }> = {
+  [DOCUMENT_TYPES.PASSPORT]: { strip: /\s/g, pattern: /^[A-Z0-9]{5,20}$/ },
+  [DOCUMENT_TYPES.NATIONAL_ID]: { strip: /[\s.-]/g, pattern: /^[A-Z0-9]{4,20}$/ },
+  [DOCUMENT_TYPES.RESIDENCE_PERMIT]: { strip: /[\s-]/g, pattern: /^[A-Z0-9]{4,20}$/ },
+  [DOCUMENT_TYPES.DRIVERS_LICENCE]: { strip: /\s/g, pattern: /^[A-Z0-9][A-Z0-9-]{3,19}$/ }
+}
+
+/**
+ * Normalize a document number according to the rules of its document type
+ * @param documentType - Document type code (see DOCUMENT_TYPES)
+ * @param documentNumber - Document number as printed on the document
+ * @returns Upper-case document number without separators
+ */
+export function normalizeDocumentNumber(documentType: DocumentType, documentNumber: string): string {
+  const format = DOCUMENT_NUMBER_FORMATS[documentType]
+  if (!format) {
+    throw new Error(`Unsupported document type ${documentType}`)
+  }
+
+  const normalized = documentNumber.replace(format.strip, '').toUpperCase()
+  if (!format.pattern.test(normalized)) {
+    throw new Error(`Invalid ${DOCUMENT_TYPE_LABELS[documentType].toLowerCase()} number`)
+  }
+  return normalized
+}
+
+/**
+ * Convert a document number to EVM address (reversible)
+ * @param documentType - Document type code (see DOCUMENT_TYPES)
+ * @param documentNumber - Document number as printed on the document
+ * @returns EVM address as 0x prefixed string
+ */
+export function documentNumberToAddress(documentType: DocumentType, documentNumber: string): `0x${string}` {
+  return passportToAddress(normalizeDocumentNumber(documentType, documentNumber))
+}
+
+/**
+ * Convert EVM address back to a document number of the given type
+ * @param documentType - Decrypted document type code
+ * @param address - The EVM address to convert back
+ * @returns The normalized document number or null if invalid for that type
+ */
+export function addressToDocumentNumber(documentType: number, address: `0x${string}`): string | null {
+  const format = DOCUMENT_NUMBER_FORMATS[documentType as DocumentType]
+  if (!format || !isValidPassportAddress(address)) {
+    return null
+  }
+
+  const hexString = address.slice(2)
+  const bytes = new Uint8Array(hexString.match(/.{1,2}/g)?.map(byte => parseInt(byte, 16)) || [])
+  const documentNumber = new TextDecoder('utf-8').decode(bytes).replace(/\0+$/, '')
+
+  return format.pattern.test(documentNumber) ? documentNumber : null
+}
+
+/**
+ * Compute the keyed fingerprint a verifier passes to verifyKYC to detect documents held by another wallet
+ * (HMAC-SHA256 over the document type and encoded number, matching the verify-kyc task)
+ * @param indexKey - Document index key shared by verifiers
+ * @param documentType - Document type code
+ * @param documentAddress - Document number encoded as address
+ * @returns 32-byte fingerprint as 0x prefixed string
+ */
+export async function documentFingerprint(
+  indexKey: string,
+  documentType: number,
+  documentAddress: `0x${string}`
+): Promise<`0x${string}`> {
+  const key = await crypto.subtle.importKey('raw', toBytes(indexKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const document = toBytes(encodePacked(['uint8', 'address'], [documentType, documentAddress]))
+  return toHex(new Uint8Array(await crypto.subtle.sign('HMAC', key, document)))
+}
+
 /**
  * Validate if an address could be a passport-derived address
  * @param address - The EVM address to validate
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint256, eaddress, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {SecureKYC} from "./SecureKYC.sol";
+
+/// @title KYCEligibility - Encrypted evaluation of SecureKYC project policies
+/// @notice Evaluates a project's stored policy against a user's encrypted KYC record and screens the record against the
+/// encrypted blocklist
+/// @dev Deployed once and linked into SecureKYC to keep it under the 24 KB contract size limit. Public library
+/// functions run through DELEGATECALL, so every ciphertext created here belongs to the calling SecureKYC proxy.
+library KYCEligibility {
+    /// @notice Highest supported document type code, exposed as SecureKYC.MAX_DOCUMENT_TYPE
+    uint8 internal constant MAX_DOCUMENT_TYPE = 4;
+
+    /// @notice Evaluate a stored project policy against a user's encrypted KYC data
+    /// @dev The caller screens the record against the blocklist first, so its blocklisted flag is current
+    /// @param userData Encrypted KYC record of the user
+    /// @param requirement Stored policy of the project
+    /// @param ageCutoff Latest eligible date of birth for the policy's minimum age, packed as YYYYMMDD
+    /// @param today Current UTC date packed as YYYYMMDD
+    /// @return eligible Encrypted result of the policy evaluation
+    function evaluate(
+        SecureKYC.EncryptedKYCData storage userData,
+        SecureKYC.KYCRequirement storage requirement,
+        uint32 ageCutoff,
+        uint32 today
+    ) public returns (ebool eligible) {
+        // Check age requirement: born on or before today's date minAge years ago
+        ebool ageEligible = FHE.le(userData.dateOfBirth, FHE.asEuint32(ageCutoff));
+
+        // Check country requirement: bit countryCode of the allow-mask must be set
+        euint256 countryBit = FHE.and(FHE.shr(FHE.asEuint256(requirement.allowedCountryMask), userData.countryCode), 1);
+        ebool countryEligible = FHE.ne(countryBit, 0);
+
+        eligible = FHE.and(FHE.and(ageEligible, countryEligible), _evaluateDocument(userData, requirement, today));
+        eligible = FHE.and(eligible, FHE.not(userData.blocklisted));
+
+        // Users without investor attributes are neither accredited nor in any income band
+        if (requirement.requireAccredited) {
+            eligible = FHE.and(eligible, userData.accredited);
+        }
+        if (requirement.minIncomeBand > 0) {
+            eligible = FHE.and(eligible, FHE.ge(userData.incomeBand, requirement.minIncomeBand));
+        }
+
+        // Unscored users would otherwise read as risk 0, so any risk limit rejects them
+        if (requirement.maxRiskScore > 0) {
+            eligible = FHE.isInitialized(userData.riskScore)
+                ? FHE.and(eligible, FHE.le(userData.riskScore, requirement.maxRiskScore))
+                : FHE.asEbool(false);
+        }
+    }
+
+    /// @notice Compare a user's document number against the next blocklist entries they were not yet screened against
+    /// @param userData Encrypted KYC record of the user
+    /// @param entries Blocklist entries following the last screened one, in blocklist order
+    function screen(SecureKYC.EncryptedKYCData storage userData, eaddress[] memory entries) public {
+        if (entries.length == 0) {
+            return;
+        }
+
+        ebool blocklisted = userData.blocklisted;
+        for (uint256 i = 0; i < entries.length; ++i) {
+            blocklisted = FHE.or(blocklisted, FHE.eq(userData.documentNumber, entries[i]));
+        }
+        FHE.allowThis(blocklisted);
+
+        userData.blocklisted = blocklisted;
+        userData.screenedEntries += entries.length;
+    }
+
+    /// @notice Convert a unix timestamp to a UTC calendar date
+    /// @dev Proleptic Gregorian conversion from days since 1970-01-01 (H. Hinnant's civil_from_days). Backs
+    /// SecureKYC.getAgeCutoffDate.
+    /// @param timestamp Unix timestamp in seconds
+    /// @return year Calendar year
+    /// @return month Month of the year (1-12)
+    /// @return day Day of the month (1-31)
+    function civilDate(uint256 timestamp) public pure returns (uint256 year, uint256 month, uint256 day) {
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 dayOfEra = z - era * 146097;
+        uint256 yearOfEra = (dayOfEra - dayOfEra / 1460 + dayOfEra / 36524 - dayOfEra / 146096) / 365;
+        uint256 dayOfYear = dayOfEra - (365 * yearOfEra + yearOfEra / 4 - yearOfEra / 100);
+        uint256 shiftedMonth = (5 * dayOfYear + 2) / 153;
+
+        day = dayOfYear - (153 * shiftedMonth + 2) / 5 + 1;
+        month = shiftedMonth < 10 ? shiftedMonth + 3 : shiftedMonth - 9;
+        year = yearOfEra + era * 400 + (month <= 2 ? 1 : 0);
+    }
+
+    /// @notice Evaluate a user's encrypted document against its expiry date and a project's accepted document types
+    /// @dev Encrypted shifts wrap at the operand width, so the type is also bounded by MAX_DOCUMENT_TYPE
+    /// @param userData Encrypted KYC record of the user
+    /// @param requirement Stored policy of the project
+    /// @param today Current UTC date packed as YYYYMMDD
+    /// @return eligible Encrypted result, true when the document has not expired and the policy accepts any document
+    function _evaluateDocument(
+        SecureKYC.EncryptedKYCData storage userData,
+        SecureKYC.KYCRequirement storage requirement,
+        uint32 today
+    ) private returns (ebool eligible) {
+        // The document must still be valid today (it expires at the end of its expiry date)
+        ebool notExpired = FHE.ge(userData.documentExpiry, today);
+        if (requirement.acceptedDocumentTypes == 0) {
+            return notExpired;
+        }
+
+        euint8 typeBit = FHE.and(FHE.shr(FHE.asEuint8(requirement.acceptedDocumentTypes), userData.documentType), 1);
+        ebool typeAccepted = FHE.and(FHE.ne(typeBit, 0), FHE.le(userData.documentType, MAX_DOCUMENT_TYPE));
+        eligible = FHE.and(typeAccepted, FHE.ne(userData.documentNumber, FHE.asEaddress(address(0))));
+        eligible = FHE.and(eligible, notExpired);
+    }
+}
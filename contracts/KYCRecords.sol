@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    euint32,
+    euint8,
+    eaddress,
+    externalEuint32,
+    externalEuint8,
+    externalEaddress,
+    ebool
+} from "@fhevm/solidity/lib/FHE.sol";
+import {SecureKYC} from "./SecureKYC.sol";
+
+/// @title KYCRecords - Storage maintenance of SecureKYC records
+/// @notice Creates encrypted KYC records from user submissions and moves them between wallets
+/// @dev Deployed once and linked into SecureKYC to keep it under the 24 KB contract size limit. Public library
+/// functions run through DELEGATECALL, so ACL grants made here are issued by the calling SecureKYC proxy.
+library KYCRecords {
+    /// @notice Store a user's encrypted KYC submission as a pending record, replacing any previous one
+    /// @dev Runs in the context of SecureKYC.submitKYC, so msg.sender is the submitting user
+    /// @param records KYC records of SecureKYC, keyed by wallet
+    /// @param documentType Encrypted identity document type (1-MAX_DOCUMENT_TYPE)
+    /// @param documentNumber Encrypted document number encoded as address
+    /// @param documentExpiry Encrypted document expiry date packed as YYYYMMDD
+    /// @param dateOfBirth Encrypted date of birth packed as YYYYMMDD
+    /// @param countryCode Encrypted country code (1-255)
+    /// @param inputProof Proof for the encrypted inputs
+    function submit(
+        mapping(address user => SecureKYC.EncryptedKYCData record) storage records,
+        externalEuint8 documentType,
+        externalEaddress documentNumber,
+        externalEuint32 documentExpiry,
+        externalEuint32 dateOfBirth,
+        externalEuint8 countryCode,
+        bytes calldata inputProof
+    ) public {
+        euint8 encryptedDocumentType = FHE.fromExternal(documentType, inputProof);
+        eaddress encryptedDocumentNumber = FHE.fromExternal(documentNumber, inputProof);
+        euint32 encryptedDocumentExpiry = FHE.fromExternal(documentExpiry, inputProof);
+        euint32 encryptedDateOfBirth = FHE.fromExternal(dateOfBirth, inputProof);
+        euint8 encryptedCountryCode = FHE.fromExternal(countryCode, inputProof);
+        ebool blocklisted = FHE.asEbool(false);
+
+        // Clears every field of a previous submission, including its approvals and attestations
+        delete records[msg.sender];
+        SecureKYC.EncryptedKYCData storage data = records[msg.sender];
+        data.documentNumber = encryptedDocumentNumber;
+        data.documentType = encryptedDocumentType;
+        data.documentExpiry = encryptedDocumentExpiry;
+        data.dateOfBirth = encryptedDateOfBirth;
+        data.countryCode = encryptedCountryCode;
+        data.status = SecureKYC.KYCStatus.Pending;
+        data.blocklisted = blocklisted;
+
+        FHE.allowThis(encryptedDocumentNumber);
+        FHE.allowThis(encryptedDocumentType);
+        FHE.allowThis(encryptedDocumentExpiry);
+        FHE.allowThis(encryptedDateOfBirth);
+        FHE.allowThis(encryptedCountryCode);
+        FHE.allowThis(blocklisted);
+
+        FHE.allow(encryptedDocumentNumber, msg.sender);
+        FHE.allow(encryptedDocumentType, msg.sender);
+        FHE.allow(encryptedDocumentExpiry, msg.sender);
+        FHE.allow(encryptedDateOfBirth, msg.sender);
+        FHE.allow(encryptedCountryCode, msg.sender);
+    }
+
+    /// @notice Move a KYC record to a new wallet and let that wallet decrypt the submitted data
+    /// @dev ACL grants cannot be revoked, so the old wallet can still decrypt the handles it submitted
+    /// @param records KYC records of SecureKYC, keyed by wallet
+    /// @param oldAddress Wallet currently holding the record
+    /// @param newAddress Wallet taking over the record
+    function move(
+        mapping(address user => SecureKYC.EncryptedKYCData record) storage records,
+        address oldAddress,
+        address newAddress
+    ) public {
+        records[newAddress] = records[oldAddress];
+        delete records[oldAddress];
+
+        SecureKYC.EncryptedKYCData storage data = records[newAddress];
+        FHE.allow(data.documentNumber, newAddress);
+        FHE.allow(data.documentType, newAddress);
+        FHE.allow(data.documentExpiry, newAddress);
+        FHE.allow(data.dateOfBirth, newAddress);
+        FHE.allow(data.countryCode, newAddress);
+        if (FHE.isInitialized(data.accredited)) {
+            FHE.allow(data.accredited, newAddress);
+            FHE.allow(data.incomeBand, newAddress);
+        }
+    }
+}
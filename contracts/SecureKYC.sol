@@ -1,62 +1,422 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+// Upgrades may only append state variables, so existing ones cannot be regrouped to lower their count
+// solhint-disable max-states-count
+
 import {
     FHE,
     euint32,
     euint8,
     euint256,
     eaddress,
+    externalEbool,
     externalEuint32,
     externalEuint8,
     externalEaddress,
     ebool
 } from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ZamaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {KYCEligibility} from "./KYCEligibility.sol";
+import {KYCRecords} from "./KYCRecords.sol";
 
 /// @title SecureKYC - A privacy-preserving KYC verification system
 /// @notice This contract allows KYC providers to verify user credentials and issue encrypted proofs
-/// @dev All KYC data is stored encrypted and can only be accessed by authorized parties
-contract SecureKYC is SepoliaConfig {
+/// @dev All KYC data is stored encrypted and can only be accessed by authorized parties. The contract is deployed
+/// behind a proxy so records and their ACL grants, which are bound to the proxy address, survive upgrades.
+contract SecureKYC {
+    enum KYCStatus {
+        None,
+        Pending,
+        Approved,
+        Rejected,
+        Revoked
+    }
+
+    enum InvalidationMode {
+        None,
+        Revoke,
+        Review
+    }
+
+    enum VerificationSkipReason {
+        None,
+        AssignedToOtherVerifier,
+        NotAwaitingVerification,
+        InvalidFingerprint,
+        DuplicateDocument,
+        AlreadyApproved,
+        FingerprintMismatch,
+        RiskScoreAssigned
+    }
+
+    /// @notice Assurance level of an approval, from the lightest to the most thorough check
+    /// @dev Basic = contact details checked, Enhanced = identity document checked, Full = in-person or enhanced due
+    /// diligence. None marks users without an approval and, in a project policy, accepts any tier.
+    enum KYCTier {
+        None,
+        Basic,
+        Enhanced,
+        Full
+    }
+
+    enum EligibilitySkipReason {
+        None,
+        UserNotVerified,
+        ConsentRequired,
+        VerificationExpired,
+        ScreeningIncomplete
+    }
+
+    struct VerifierInvalidation {
+        InvalidationMode mode;
+        uint256 invalidatedAt;
+    }
+
+    struct Attestation {
+        address verifier;
+        uint256 timestamp;
+    }
+
+    // Members of stored structs are append-only as well, so they cannot be repacked
+    // solhint-disable-next-line gas-struct-packing
     struct EncryptedKYCData {
-        eaddress passportAddress;
-        euint32 birthYear;
+        eaddress documentNumber;
+        euint8 documentType;
+        euint32 documentExpiry;
+        euint32 dateOfBirth;
         euint8 countryCode;
-        bool isVerified;
+        KYCStatus status;
+        uint8 rejectionReason;
         uint256 verificationTimestamp;
         address verifiedBy;
+        address assignedVerifier;
+        ebool blocklisted;
+        uint256 screenedEntries;
+        bytes32 documentFingerprint;
+        address[] approvers;
+        bytes32 approvalFingerprint;
+        KYCTier tier;
+        KYCTier approvalTier;
+        ebool accredited;
+        euint8 incomeBand;
+        euint8 riskScore;
+        euint8 approvalRiskScore;
+        address[] approvedBy;
+        Attestation attributesAttestation;
+        Attestation riskScoreAttestation;
     }
 
+    struct WalletMigration {
+        address newAddress;
+        bool verifierApproved;
+    }
+
+    struct EligibilityRequest {
+        address user;
+        address projectAddress;
+        uint256 checkedAt;
+        bytes32 policyHash;
+    }
+
+    struct PublicEligibilityCheck {
+        uint256 checkedAt;
+        bytes32 policyHash;
+    }
+
+    // solhint-disable-next-line gas-struct-packing
     struct KYCRequirement {
+        uint32 minAge;
+        uint256 allowedCountryMask;
+        uint8 acceptedDocumentTypes;
         bool isActive;
+        uint256 maxVerificationAge;
+        bytes32 policyHash;
+        KYCTier minTier;
+        bool requireAccredited;
+        uint8 minIncomeBand;
+        uint8 maxRiskScore;
     }
 
-    mapping(address => EncryptedKYCData) private userKYCData;
-    mapping(address => bool) public authorizedVerifiers;
-    mapping(address => bool) public projectRequirements;
-    mapping(address => mapping(address => bool)) public userProjectEligibility;
+    /// @notice Highest supported document type code
+    /// @dev Codes: 1 = passport, 2 = national ID card, 3 = residence permit, 4 = driver's licence
+    uint8 public constant MAX_DOCUMENT_TYPE = KYCEligibility.MAX_DOCUMENT_TYPE;
+
+    /// @notice Highest supported income or net-worth band code
+    /// @dev Bands in USD: 1 = under 50k, 2 = 50k-200k, 3 = 200k-1M, 4 = 1M-5M, 5 = over 5M; 0 means not assessed
+    uint8 public constant MAX_INCOME_BAND = 5;
+
+    /// @notice Highest AML risk score a verifier can assign; higher encrypted inputs are capped to it
+    uint8 public constant MAX_RISK_SCORE = 100;
+
+    /// @notice Most blocklist entries an approval or eligibility check compares; screenKYC works off larger backlogs
+    uint256 public constant SCREENING_BATCH_SIZE = 10;
 
+    /// @notice Role of the single administrator, held by `admin` and moved only through transferAdmin/acceptAdmin
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    /// @notice Role allowed to review, verify and reject KYC submissions and to maintain the blocklist
+    bytes32 public constant VERIFIER_ROLE = keccak256("VERIFIER_ROLE");
+    /// @notice Role allowed to register, change and deactivate project eligibility policies
+    bytes32 public constant PROJECT_MANAGER_ROLE = keccak256("PROJECT_MANAGER_ROLE");
+    /// @notice Read-only role for compliance reviewers; grants no write access and is tracked for audit tooling
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+
+    // Storage layout: upgrades may only append state variables (and struct members) after the existing ones.
+    // Never reorder, retype or remove a variable; the upgrade-securekyc deploy step rejects such changes.
+    mapping(address user => EncryptedKYCData record) private userKYCData;
+    mapping(bytes32 role => mapping(address account => bool member)) private roleMembers;
+    /// @notice Latest deauthorization of each verifier and how it affects the approvals they issued
+    mapping(address verifier => VerifierInvalidation invalidation) public verifierInvalidations;
+    mapping(address project => KYCRequirement requirement) private projectRequirements;
+    mapping(address user => mapping(address project => bool eligible)) private userProjectEligibility;
+
+    /// @notice Administrator allowed to manage roles, pauses and global settings
     address public admin;
+    /// @notice Account nominated by transferAdmin that still has to call acceptAdmin
+    address public pendingAdmin;
+    /// @notice Seconds an approval stays valid unless a project policy sets a shorter maximum age
+    uint256 public defaultVerificationValidity;
 
-    mapping(address => mapping(address => ebool)) private checkEligibilityResults;
+    mapping(address project => mapping(address user => ebool eligible)) private checkEligibilityResults;
+    mapping(address user => address[] projects) private userCheckedProjects;
+    mapping(uint256 requestId => EligibilityRequest request) private eligibilityRequests;
+    mapping(address user => mapping(address project => euint256 proof)) private projectProofs;
+    mapping(address user => address[] projects) private userProofProjects;
+    /// @notice Time until which a user's consent to a project is valid; zero if none was granted
+    mapping(address user => mapping(address project => uint256 expiresAt)) public consentExpiry;
+    mapping(address user => address[] projects) private userConsentProjects;
+    eaddress[] private blocklist;
+    mapping(bytes32 fingerprint => address holder) private documentHolders;
+    /// @notice Pending wallet migration of each user, keyed by the wallet holding the record
+    mapping(address oldAddress => WalletMigration migration) public walletMigrations;
+    /// @notice Whether a verifier has to approve a wallet migration before the new wallet can accept it
+    bool public migrationRequiresVerifier;
+    /// @notice Number of distinct verifier approvals needed before a user is verified
+    uint256 public verificationQuorum;
+    /// @notice Whether every pausable function is halted
+    bool public paused;
+    mapping(bytes4 selector => bool halted) private pausedFunctions;
+    bool private initialized;
+    mapping(address user => mapping(address project => PublicEligibilityCheck check)) private publicEligibilityChecks;
 
+    /// @notice Emitted when a user submits or resubmits encrypted KYC data
+    /// @param user Address of the user
+    /// @param timestamp Time of the submission
+    event KYCSubmitted(address indexed user, uint256 timestamp);
+    /// @notice Emitted when a user assigns a verifier to review their submission
+    /// @param user Address of the user
+    /// @param verifier Address of the assigned verifier
+    event VerifierAssigned(address indexed user, address indexed verifier);
+    /// @notice Emitted when a user is verified
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier whose approval completed the verification
+    /// @param timestamp Time of the verification
     event KYCVerified(address indexed user, address indexed verifier, uint256 timestamp);
-    event VerifierAuthorized(address indexed verifier, bool authorized);
-    event ProjectRequirementSet(address indexed projectAddress);
+    /// @notice Emitted when a verified user receives an assurance tier
+    /// @param user Address of the user
+    /// @param tier Tier granted to the user
+    event KYCTierAssigned(address indexed user, KYCTier tier);
+    /// @notice Emitted when a verifier sets a user's encrypted investor attributes
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier
+    event InvestorAttributesSet(address indexed user, address indexed verifier);
+    /// @notice Emitted when a verifier replaces a user's encrypted risk score
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier
+    event RiskScoreUpdated(address indexed user, address indexed verifier);
+    /// @notice Emitted when a verifier approves a user; the user is verified once the approvals reach the quorum
+    /// @param user Address of the user
+    /// @param verifier Address of the approving verifier
+    /// @param approvals Approvals of the current submission that still count towards the quorum
+    /// @param quorum Approvals required at the time
+    event KYCApprovalRecorded(address indexed user, address indexed verifier, uint256 approvals, uint256 quorum);
+    /// @notice Emitted when verifyKYCBatch leaves a user unchanged
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier
+    /// @param reason Why the user was skipped
+    event KYCVerificationSkipped(address indexed user, address indexed verifier, VerificationSkipReason reason);
+    /// @notice Emitted at the end of verifyKYCBatch
+    /// @param verifier Address of the verifier
+    /// @param verifiedCount Users approved by the batch
+    /// @param skippedCount Users skipped by the batch
+    event KYCBatchVerified(address indexed verifier, uint256 verifiedCount, uint256 skippedCount);
+    /// @notice Emitted when a verifier rejects a pending submission
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier
+    /// @param reasonCode Rejection reason code
+    /// @param timestamp Time of the rejection
+    event KYCRejected(address indexed user, address indexed verifier, uint8 reasonCode, uint256 timestamp);
+    /// @notice Emitted when an account is granted a role
+    /// @param role Role identifier
+    /// @param account Account receiving the role
+    /// @param sender Account that granted the role
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    /// @notice Emitted when an account loses a role
+    /// @param role Role identifier
+    /// @param account Account losing the role
+    /// @param sender Account that revoked the role
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    /// @notice Emitted when the admin nominates a successor
+    /// @param currentAdmin Current administrator
+    /// @param pendingAdmin Nominated administrator
+    event AdminTransferStarted(address indexed currentAdmin, address indexed pendingAdmin);
+    /// @notice Emitted when the nominated administrator accepts the role
+    /// @param previousAdmin Former administrator
+    /// @param newAdmin New administrator
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    /// @notice Emitted when a verifier is deauthorized
+    /// @param verifier Address of the verifier
+    /// @param mode How the approvals the verifier issued are treated
+    /// @param timestamp Time of the deauthorization
+    event VerifierApprovalsInvalidated(address indexed verifier, InvalidationMode mode, uint256 timestamp);
+    /// @notice Emitted when a user's approval is revoked because a verifier behind it was deauthorized
+    /// @param user Address of the user
+    /// @param verifier Address of the deauthorized verifier
+    /// @param mode Invalidation mode of the deauthorization
+    event VerificationInvalidated(address indexed user, address indexed verifier, InvalidationMode mode);
+    /// @notice Emitted when a project eligibility policy is registered or changed
+    /// @param projectAddress Address of the project
+    /// @param minAge Minimum age in years
+    /// @param allowedCountryMask Bitmask of the allowed country codes
+    /// @param acceptedDocumentTypes Bitmask of the accepted document types
+    /// @param maxVerificationAge Maximum age of an approval in seconds, or zero for the default validity
+    /// @param minTier Minimum assurance tier
+    /// @param requireAccredited Whether users must be accredited investors
+    /// @param minIncomeBand Minimum income or net-worth band
+    /// @param maxRiskScore Highest accepted risk score, or zero to skip the check
+    /// @param policyHash Hash identifying the policy version
+    event ProjectRequirementSet(
+        address indexed projectAddress,
+        uint32 minAge,
+        uint256 allowedCountryMask,
+        uint8 acceptedDocumentTypes,
+        uint256 maxVerificationAge,
+        KYCTier minTier,
+        bool requireAccredited,
+        uint8 minIncomeBand,
+        uint8 maxRiskScore,
+        bytes32 policyHash
+    );
+    /// @notice Emitted when a project policy is activated or deactivated
+    /// @param projectAddress Address of the project
+    /// @param isActive Whether the policy is active
+    event ProjectStatusChanged(address indexed projectAddress, bool isActive);
+    /// @notice Emitted when the admin changes the default verification validity
+    /// @param validity New validity in seconds
+    event DefaultVerificationValidityUpdated(uint256 validity);
+    /// @notice Emitted when the decryption oracle returns a public eligibility result
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param eligible Whether the user met the project policy
     event EligibilityChecked(address indexed user, address indexed projectAddress, bool eligible);
+    /// @notice Emitted when a project stores an encrypted eligibility result
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param policyHash Hash of the policy the user was checked against
+    event EligibilityCheckPerformed(address indexed user, address indexed projectAddress, bytes32 policyHash);
+    /// @notice Emitted when checkEligibilityBatch skips a user
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param reason Why the user was skipped
+    event EligibilityCheckSkipped(address indexed user, address indexed projectAddress, EligibilitySkipReason reason);
+    /// @notice Emitted at the end of checkEligibilityBatch
+    /// @param projectAddress Address of the project
+    /// @param checkedCount Users checked by the batch
+    /// @param skippedCount Users skipped by the batch
+    event EligibilityBatchChecked(address indexed projectAddress, uint256 checkedCount, uint256 skippedCount);
+    /// @notice Emitted when a project requests a public eligibility result from the decryption oracle
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param requestId Decryption request identifier
+    event EligibilityDecryptionRequested(address indexed user, address indexed projectAddress, uint256 requestId);
+    /// @notice Emitted when a user generates an encrypted eligibility proof for a project
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param policyHash Hash of the policy the proof was evaluated against
+    event ProofGenerated(address indexed user, address indexed projectAddress, bytes32 policyHash);
+    /// @notice Emitted when a user grants a project consent to check their eligibility
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @param expiresAt Time the consent expires, or zero if it does not expire
+    event ConsentGranted(address indexed user, address indexed projectAddress, uint256 expiresAt);
+    /// @notice Emitted when a user revokes a project's consent
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    event ConsentRevoked(address indexed user, address indexed projectAddress);
+    /// @notice Emitted when a verifier adds encrypted document numbers to the blocklist
+    /// @param verifier Address of the verifier
+    /// @param count Entries added
+    /// @param totalEntries Blocklist size after the addition
+    event BlocklistEntriesAdded(address indexed verifier, uint256 count, uint256 totalEntries);
+    /// @notice Emitted when a verifier screens a user against further blocklist entries
+    /// @param user Address of the user
+    /// @param verifier Address of the verifier
+    /// @param screenedEntries Blocklist entries the user has been screened against
+    event KYCScreened(address indexed user, address indexed verifier, uint256 screenedEntries);
+    /// @notice Emitted when a user starts moving their record to a new wallet
+    /// @param oldAddress Wallet holding the record
+    /// @param newAddress Wallet that can accept the record
+    event MigrationInitiated(address indexed oldAddress, address indexed newAddress);
+    /// @notice Emitted when a verifier approves a pending wallet migration
+    /// @param oldAddress Wallet holding the record
+    /// @param verifier Address of the verifier
+    event MigrationApproved(address indexed oldAddress, address indexed verifier);
+    /// @notice Emitted when a user cancels a pending wallet migration
+    /// @param oldAddress Wallet holding the record
+    event MigrationCancelled(address indexed oldAddress);
+    /// @notice Emitted when the new wallet accepts a migration and takes over the record
+    /// @param oldAddress Wallet that held the record
+    /// @param newAddress Wallet now holding the record
+    /// @param timestamp Time of the migration
+    event KYCMigrated(address indexed oldAddress, address indexed newAddress, uint256 timestamp);
+    /// @notice Emitted when the admin changes whether migrations need a verifier approval
+    /// @param required Whether a verifier approval is required
+    event MigrationRequiresVerifierUpdated(bool required);
+    /// @notice Emitted when the admin changes the verification quorum
+    /// @param quorum Approvals required to verify a user
+    event VerificationQuorumUpdated(uint256 quorum);
+    /// @notice Emitted when a user deletes their KYC record
+    /// @param user Address of the user
+    /// @param timestamp Time of the deletion
+    event KYCDeleted(address indexed user, uint256 timestamp);
+    /// @notice Emitted when the admin pauses every pausable function or a single one
+    /// @param account Admin that paused
+    /// @param selector Paused function selector, or zero for a global pause
+    event Paused(address indexed account, bytes4 indexed selector);
+    /// @notice Emitted when the admin lifts a global pause or the pause of a single function
+    /// @param account Admin that unpaused
+    /// @param selector Unpaused function selector, or zero for the global pause
+    event Unpaused(address indexed account, bytes4 indexed selector);
 
     error UnauthorizedVerifier();
     error UserNotVerified();
     error InvalidInput();
     error OnlyAdmin();
+    error NotPendingAdmin();
+    error UnauthorizedProjectManager();
+    error ProjectNotActive();
+    error VerificationExpired();
+    error ConsentRequired();
+    error DuplicateDocument();
+    error MigrationNotApproved();
+    error ContractPaused();
+    error AlreadyInitialized();
+    error ScreeningIncomplete();
 
     modifier onlyAuthorizedVerifier() {
-        if (!authorizedVerifiers[msg.sender] && msg.sender != admin) {
+        if (!hasRole(VERIFIER_ROLE, msg.sender)) {
             revert UnauthorizedVerifier();
         }
         _;
     }
 
+    modifier onlyProjectManager() {
+        if (!hasRole(PROJECT_MANAGER_ROLE, msg.sender)) {
+            revert UnauthorizedProjectManager();
+        }
+        _;
+    }
+
     modifier onlyAdmin() {
         if (msg.sender != admin) {
             revert OnlyAdmin();
@@ -64,213 +424,950 @@ contract SecureKYC is SepoliaConfig {
         _;
     }
 
+    modifier whenNotPaused(bytes4 selector) {
+        _requireNotPaused(selector);
+        _;
+    }
+
+    /// @notice Lock the implementation contract
+    /// @dev Only the proxy storage is ever initialized
     constructor() {
+        initialized = true;
+    }
+
+    /// @notice Initialize the proxy with the caller as admin, verifier and project manager
+    /// @dev Called once, atomically by the proxy constructor. The FHEVM coprocessor and decryption oracle addresses
+    /// live in proxy storage, so they are configured here rather than in a constructor.
+    function initialize() external {
+        if (initialized) {
+            revert AlreadyInitialized();
+        }
+        initialized = true;
+
+        FHE.setCoprocessor(ZamaConfig.getSepoliaConfig());
+        FHE.setDecryptionOracle(ZamaConfig.getSepoliaOracleAddress());
+
         admin = msg.sender;
-        authorizedVerifiers[msg.sender] = true;
+        _grantRole(VERIFIER_ROLE, msg.sender);
+        _grantRole(PROJECT_MANAGER_ROLE, msg.sender);
+        defaultVerificationValidity = 365 days;
+        verificationQuorum = 1;
     }
 
     /// @notice Submit KYC data for verification
-    /// @param passportAddress Encrypted passport number as address
-    /// @param birthYear Encrypted birth year
+    /// @param documentType Encrypted identity document type (1-MAX_DOCUMENT_TYPE)
+    /// @param documentNumber Encrypted document number encoded as address
+    /// @param documentExpiry Encrypted document expiry date packed as YYYYMMDD
+    /// @param dateOfBirth Encrypted date of birth packed as YYYYMMDD (e.g. 19900415)
     /// @param countryCode Encrypted country code (1-255)
     /// @param inputProof Proof for the encrypted inputs
     function submitKYC(
-        externalEaddress passportAddress,
-        externalEuint32 birthYear,
+        externalEuint8 documentType,
+        externalEaddress documentNumber,
+        externalEuint32 documentExpiry,
+        externalEuint32 dateOfBirth,
         externalEuint8 countryCode,
         bytes calldata inputProof
-    ) external {
-        eaddress encryptedPassportAddress = FHE.fromExternal(passportAddress, inputProof);
-        euint32 encryptedBirthYear = FHE.fromExternal(birthYear, inputProof);
-        euint8 encryptedCountryCode = FHE.fromExternal(countryCode, inputProof);
-
-        userKYCData[msg.sender] = EncryptedKYCData({
-            passportAddress: encryptedPassportAddress,
-            birthYear: encryptedBirthYear,
-            countryCode: encryptedCountryCode,
-            isVerified: false,
-            verificationTimestamp: 0,
-            verifiedBy: address(0)
-        });
+    ) external whenNotPaused(this.submitKYC.selector) {
+        KYCRecords.submit(
+            userKYCData,
+            documentType,
+            documentNumber,
+            documentExpiry,
+            dateOfBirth,
+            countryCode,
+            inputProof
+        );
 
-        FHE.allowThis(encryptedPassportAddress);
-        FHE.allowThis(encryptedBirthYear);
-        FHE.allowThis(encryptedCountryCode);
+        // Results of a previous approval must not outlive the resubmission
+        _clearEligibilityResults(msg.sender);
+        _clearProofs(msg.sender);
 
-        FHE.allow(encryptedPassportAddress, msg.sender);
-        FHE.allow(encryptedBirthYear, msg.sender);
-        FHE.allow(encryptedCountryCode, msg.sender);
+        emit KYCSubmitted(msg.sender, block.timestamp);
     }
 
-    /// @notice Verify a user's KYC data (only authorized verifiers)
+    /// @notice Assign a verifier to the caller's pending submission and let it decrypt the submitted data
+    /// @dev Once assigned, only that verifier can verify or reject the submission; assigning again replaces it.
+    /// Under a quorum above one the assignment only grants decryption access, so assign each reviewing verifier.
+    /// @param verifier Address of an authorized verifier
+    function assignVerifier(address verifier) external whenNotPaused(this.assignVerifier.selector) {
+        EncryptedKYCData storage data = userKYCData[msg.sender];
+        if (data.status != KYCStatus.Pending) {
+            revert InvalidInput();
+        }
+        if (!hasRole(VERIFIER_ROLE, verifier)) {
+            revert UnauthorizedVerifier();
+        }
+
+        FHE.allow(data.documentNumber, verifier);
+        FHE.allow(data.documentType, verifier);
+        FHE.allow(data.documentExpiry, verifier);
+        FHE.allow(data.dateOfBirth, verifier);
+        FHE.allow(data.countryCode, verifier);
+
+        data.assignedVerifier = verifier;
+
+        emit VerifierAssigned(msg.sender, verifier);
+    }
+
+    /// @notice Approve a pending submission, or re-verify an approved one (only authorized verifiers)
+    /// @dev The user is verified once verificationQuorum distinct verifiers approved the same fingerprint; the
+    /// last approval screens the document number against outstanding blocklist entries and lets that verifier decrypt
+    /// the result. The fingerprint is a keyed hash the verifier computes from the document type and number with a
+    /// secret index key, so the index cannot be reversed by enumerating document numbers; it is not checked against
+    /// the ciphertext. Under a quorum the user receives the lowest tier and the highest risk score of all approvals.
     /// @param user Address of the user to verify
-    function verifyKYC(address user) external onlyAuthorizedVerifier {
-        if (!FHE.isInitialized(userKYCData[user].passportAddress)) {
+    /// @param documentFingerprint Keyed fingerprint of the submitted document
+    /// @param tier Assurance tier of the checks the verifier performed (Basic to Full)
+    /// @param riskScore Encrypted AML risk score (0-MAX_RISK_SCORE), never decryptable by the user or projects
+    /// @param inputProof Proof for the encrypted risk score
+    function verifyKYC(
+        address user,
+        bytes32 documentFingerprint,
+        KYCTier tier,
+        externalEuint8 riskScore,
+        bytes calldata inputProof
+    ) external onlyAuthorizedVerifier whenNotPaused(this.verifyKYC.selector) {
+        if (tier == KYCTier.None) {
+            revert InvalidInput();
+        }
+        _applyVerifierInvalidation(user);
+
+        VerificationSkipReason reason = _verificationSkipReason(user, documentFingerprint);
+        if (reason == VerificationSkipReason.AssignedToOtherVerifier) {
+            revert UnauthorizedVerifier();
+        }
+        if (reason == VerificationSkipReason.DuplicateDocument) {
+            revert DuplicateDocument();
+        }
+        if (reason != VerificationSkipReason.None) {
             revert InvalidInput();
         }
 
-        userKYCData[user].isVerified = true;
-        userKYCData[user].verificationTimestamp = block.timestamp;
-        userKYCData[user].verifiedBy = msg.sender;
+        _recordApproval(user, documentFingerprint, tier, _toRiskScore(riskScore, inputProof));
+    }
 
-        emit KYCVerified(user, msg.sender, block.timestamp);
+    /// @notice Verify many users in one transaction, skipping those that cannot be verified (only authorized verifiers)
+    /// @dev Each user is checked like verifyKYC; instead of reverting, skipped users emit KYCVerificationSkipped.
+    /// Batch approvals carry no risk score, so policies with a risk limit reject them until updateRiskScore sets one.
+    /// Users that already hold a risk score are skipped rather than having it dropped; verifyKYC re-verifies them.
+    /// @param users Addresses of the users to verify
+    /// @param documentFingerprints Keyed fingerprint of each user's document, in the same order
+    /// @param tier Assurance tier of the checks the verifier performed, shared by every user of the batch
+    /// @return verifiedCount Number of users whose approval was recorded
+    function verifyKYCBatch(
+        address[] calldata users,
+        bytes32[] calldata documentFingerprints,
+        KYCTier tier
+    ) external onlyAuthorizedVerifier whenNotPaused(this.verifyKYC.selector) returns (uint256 verifiedCount) {
+        if (users.length == 0 || users.length != documentFingerprints.length || tier == KYCTier.None) {
+            revert InvalidInput();
+        }
+
+        for (uint256 i = 0; i < users.length; ++i) {
+            _applyVerifierInvalidation(users[i]);
+
+            VerificationSkipReason reason = _verificationSkipReason(users[i], documentFingerprints[i]);
+            if (reason == VerificationSkipReason.None && FHE.isInitialized(userKYCData[users[i]].riskScore)) {
+                reason = VerificationSkipReason.RiskScoreAssigned;
+            }
+            if (reason == VerificationSkipReason.None) {
+                _recordApproval(users[i], documentFingerprints[i], tier, euint8.wrap(0));
+                ++verifiedCount;
+            } else {
+                emit KYCVerificationSkipped(users[i], msg.sender, reason);
+            }
+        }
+
+        emit KYCBatchVerified(msg.sender, verifiedCount, users.length - verifiedCount);
     }
 
-    /// @notice Set requirements for a project
-    /// @param projectAddress Address that will be allowed to check eligibility
-    function setProjectRequirements(address projectAddress) external onlyAuthorizedVerifier {
-        projectRequirements[projectAddress] = true;
+    /// @notice Reject a user's pending KYC data (only authorized verifiers)
+    /// @dev The user can resubmit through submitKYC, which moves the record back to pending
+    /// @param user Address of the user to reject
+    /// @param reasonCode Non-zero code describing why the submission was rejected
+    function rejectKYC(
+        address user,
+        uint8 reasonCode
+    ) external onlyAuthorizedVerifier whenNotPaused(this.verifyKYC.selector) {
+        if (userKYCData[user].status != KYCStatus.Pending || reasonCode == 0) {
+            revert InvalidInput();
+        }
+        _requireAssignedVerifier(userKYCData[user]);
 
-        emit ProjectRequirementSet(projectAddress);
+        userKYCData[user].status = KYCStatus.Rejected;
+        userKYCData[user].rejectionReason = reasonCode;
+        _clearApprovals(userKYCData[user]);
+        _clearEligibilityResults(user);
+        _clearProofs(user);
+
+        emit KYCRejected(user, msg.sender, reasonCode, block.timestamp);
     }
 
-    /// @notice Check if user meets project requirements without revealing specific data
-    /// @param user Address of the user
-    /// @param minAge Minimum age requirement
-    /// @param allowedCountries Array of allowed country codes
-    /// @param requiresPassport Whether passport verification is required
-    function checkEligibility(
+    /// @notice Attach an encrypted accredited-investor flag and income band to a verified user (verifiers only)
+    /// @dev Setting them again replaces both; a resubmission clears them, and so does invalidating the approvals of the
+    /// verifier that set them. The user and the caller can decrypt them.
+    /// @param user Address of the verified user
+    /// @param accredited Encrypted accredited-investor status
+    /// @param incomeBand Encrypted income or net-worth band (1-MAX_INCOME_BAND)
+    /// @param inputProof Proof for the encrypted inputs
+    function setInvestorAttributes(
         address user,
-        uint32 minAge,
-        uint8[] calldata allowedCountries,
-        bool requiresPassport
-    ) external {
-        if (!userKYCData[user].isVerified) {
+        externalEbool accredited,
+        externalEuint8 incomeBand,
+        bytes calldata inputProof
+    ) external onlyAuthorizedVerifier whenNotPaused(this.verifyKYC.selector) {
+        EncryptedKYCData storage data = userKYCData[user];
+        _requireCurrentApproval(data);
+
+        data.accredited = FHE.fromExternal(accredited, inputProof);
+        data.incomeBand = FHE.fromExternal(incomeBand, inputProof);
+        data.attributesAttestation = Attestation({verifier: msg.sender, timestamp: block.timestamp});
+
+        FHE.allowThis(data.accredited);
+        FHE.allowThis(data.incomeBand);
+        FHE.allow(data.accredited, user);
+        FHE.allow(data.incomeBand, user);
+        FHE.allow(data.accredited, msg.sender);
+        FHE.allow(data.incomeBand, msg.sender);
+
+        emit InvestorAttributesSet(user, msg.sender);
+    }
+
+    /// @notice Replace the encrypted AML risk score of a verified user (only authorized verifiers)
+    /// @dev Neither the user nor projects can decrypt the score, only the verifier that assigned it. The score is
+    /// dropped once that verifier's approvals are invalidated.
+    /// @param user Address of the verified user
+    /// @param riskScore Encrypted AML risk score (0-MAX_RISK_SCORE)
+    /// @param inputProof Proof for the encrypted risk score
+    function updateRiskScore(
+        address user,
+        externalEuint8 riskScore,
+        bytes calldata inputProof
+    ) external onlyAuthorizedVerifier whenNotPaused(this.verifyKYC.selector) {
+        EncryptedKYCData storage data = userKYCData[user];
+        _requireCurrentApproval(data);
+
+        data.riskScore = _toRiskScore(riskScore, inputProof);
+        data.riskScoreAttestation = Attestation({verifier: msg.sender, timestamp: block.timestamp});
+
+        emit RiskScoreUpdated(user, msg.sender);
+    }
+
+    /// @notice Add encrypted document numbers to the sanctions blocklist (only authorized verifiers)
+    /// @dev Entries are compared against document numbers with FHE.eq, so neither side is ever revealed. At most
+    /// SCREENING_BATCH_SIZE entries per call, so screened users stay within what one eligibility check catches up on.
+    /// @param entries Encrypted document numbers encoded as addresses
+    /// @param inputProof Proof for the encrypted inputs
+    function addBlocklistEntries(
+        externalEaddress[] calldata entries,
+        bytes calldata inputProof
+    ) external onlyAuthorizedVerifier whenNotPaused(this.addBlocklistEntries.selector) {
+        if (entries.length == 0 || entries.length > SCREENING_BATCH_SIZE) {
+            revert InvalidInput();
+        }
+
+        for (uint256 i = 0; i < entries.length; ++i) {
+            eaddress entry = FHE.fromExternal(entries[i], inputProof);
+            FHE.allowThis(entry);
+            blocklist.push(entry);
+        }
+
+        emit BlocklistEntriesAdded(msg.sender, entries.length, blocklist.length);
+    }
+
+    /// @notice Screen a user's document number against up to maxEntries outstanding blocklist entries
+    /// @dev Lets long blocklists be screened over several transactions; the caller can decrypt the result. Eligibility
+    /// checks are refused with ScreeningIncomplete while more than SCREENING_BATCH_SIZE entries are outstanding.
+    /// @param user Address of the user to screen
+    /// @param maxEntries Maximum number of blocklist entries to compare in this call
+    /// @return remaining Number of blocklist entries the user still has to be screened against
+    function screenKYC(
+        address user,
+        uint256 maxEntries
+    ) external onlyAuthorizedVerifier whenNotPaused(this.screenKYC.selector) returns (uint256 remaining) {
+        EncryptedKYCData storage data = userKYCData[user];
+        if (data.status == KYCStatus.None || maxEntries == 0) {
+            revert InvalidInput();
+        }
+
+        uint256 end = data.screenedEntries + maxEntries;
+        if (end > blocklist.length) {
+            end = blocklist.length;
+        }
+        _screenAgainstBlocklist(data, end);
+        FHE.allow(data.blocklisted, msg.sender);
+
+        emit KYCScreened(user, msg.sender, end);
+        return blocklist.length - end;
+    }
+
+    /// @notice Start moving the caller's verified KYC record to a new wallet
+    /// @dev The new wallet completes the move with acceptMigration; initiating again replaces the target
+    /// @param newAddress Wallet that will hold the record
+    function initiateMigration(address newAddress) external {
+        EncryptedKYCData storage data = userKYCData[msg.sender];
+        if (data.status != KYCStatus.Approved || _isInvalidatedByVerifier(data)) {
             revert UserNotVerified();
         }
+        if (newAddress == address(0) || newAddress == msg.sender || userKYCData[newAddress].status != KYCStatus.None) {
+            revert InvalidInput();
+        }
 
-        if (!projectRequirements[msg.sender]) {
+        walletMigrations[msg.sender] = WalletMigration({newAddress: newAddress, verifierApproved: false});
+
+        emit MigrationInitiated(msg.sender, newAddress);
+    }
+
+    /// @notice Co-sign a pending wallet migration (only authorized verifiers)
+    /// @dev Only required while migrationRequiresVerifier is set
+    /// @param oldAddress Wallet that initiated the migration
+    function approveMigration(
+        address oldAddress
+    ) external onlyAuthorizedVerifier whenNotPaused(this.approveMigration.selector) {
+        WalletMigration storage migration = walletMigrations[oldAddress];
+        if (migration.newAddress == address(0)) {
             revert InvalidInput();
         }
 
-        // Use the stored encrypted KYC data directly
-        EncryptedKYCData storage userData = userKYCData[user];
+        migration.verifierApproved = true;
+
+        emit MigrationApproved(oldAddress, msg.sender);
+    }
+
+    /// @notice Abandon the caller's pending wallet migration
+    function cancelMigration() external {
+        if (walletMigrations[msg.sender].newAddress == address(0)) {
+            revert InvalidInput();
+        }
+
+        delete walletMigrations[msg.sender];
+
+        emit MigrationCancelled(msg.sender);
+    }
+
+    /// @notice Accept a wallet migration targeting the caller and take over the verified KYC record
+    /// @dev The approval keeps its verificationTimestamp and verifiedBy; the old wallet's eligibility results, proofs
+    /// and consents are dropped, so the new wallet grants consent and generates proofs afresh
+    /// @param oldAddress Wallet that initiated the migration
+    function acceptMigration(address oldAddress) external {
+        WalletMigration memory migration = walletMigrations[oldAddress];
+        if (migration.newAddress != msg.sender || userKYCData[msg.sender].status != KYCStatus.None) {
+            revert InvalidInput();
+        }
+        if (migrationRequiresVerifier && !migration.verifierApproved) {
+            revert MigrationNotApproved();
+        }
+        EncryptedKYCData storage data = userKYCData[oldAddress];
+        if (data.status != KYCStatus.Approved || _isInvalidatedByVerifier(data)) {
+            revert UserNotVerified();
+        }
 
-        FHE.allowTransient(userData.birthYear, address(this));
-        FHE.allowTransient(userData.countryCode, address(this));
+        delete walletMigrations[oldAddress];
+        bytes32 documentFingerprint = data.documentFingerprint;
+        KYCRecords.move(userKYCData, oldAddress, msg.sender);
+        if (documentFingerprint != bytes32(0)) {
+            documentHolders[documentFingerprint] = msg.sender;
+        }
+        _clearEligibilityResults(oldAddress);
+        _clearProofsAndConsents(oldAddress);
 
-        // Check age requirement
-        euint32 currentYear = FHE.asEuint32(uint32(block.timestamp / 365 days + 1970));
-        euint32 userAge = FHE.sub(currentYear, userData.birthYear);
-        euint32 requiredMinAge = FHE.asEuint32(minAge);
-        ebool ageEligible = FHE.ge(userAge, requiredMinAge);
+        emit KYCMigrated(oldAddress, msg.sender, block.timestamp);
+    }
 
-        // Check country requirement
-        ebool countryEligible = FHE.asEbool(false);
-        for (uint256 i = 0; i < allowedCountries.length; i++) {
-            euint8 allowedCountry = FHE.asEuint8(allowedCountries[i]);
-            ebool countryAllowed = FHE.eq(userData.countryCode, allowedCountry);
-            countryEligible = FHE.or(countryEligible, countryAllowed);
+    /// @notice Erase the caller's KYC record together with every eligibility result, proof and consent tied to it
+    /// @dev Ciphertexts already shared through the ACL cannot be recalled; the contract drops every reference to them
+    function deleteKYC() external {
+        EncryptedKYCData storage data = userKYCData[msg.sender];
+        if (data.status == KYCStatus.None) {
+            revert InvalidInput();
         }
 
-        // Check passport requirement
-        ebool passportEligible = FHE.asEbool(userData.isVerified);
-        if (!requiresPassport) {
-            passportEligible = FHE.asEbool(true);
+        if (documentHolders[data.documentFingerprint] == msg.sender) {
+            delete documentHolders[data.documentFingerprint];
         }
+        delete userKYCData[msg.sender];
+        delete walletMigrations[msg.sender];
 
-        // Final eligibility check
-        ebool eligible = FHE.and(FHE.and(ageEligible, countryEligible), passportEligible);
+        _clearEligibilityResults(msg.sender);
+        _clearProofsAndConsents(msg.sender);
 
-        FHE.allowThis(eligible);
-        FHE.allow(eligible, msg.sender);
+        emit KYCDeleted(msg.sender, block.timestamp);
+    }
 
-        checkEligibilityResults[msg.sender][user] = eligible;
+    /// @notice Register or replace the eligibility policy of a project
+    /// @param projectAddress Address that will be allowed to check eligibility
+    /// @param minAge Minimum age requirement
+    /// @param allowedCountryMask Bitmask of allowed country codes, bit n set allows country code n (1-255)
+    /// @param acceptedDocumentTypes Bitmask of accepted document types, bit n set accepts type n (0 accepts any)
+    /// @param maxVerificationAge Maximum age in seconds of an accepted verification (0 uses the global default)
+    /// @param minTier Lowest accepted assurance tier (None accepts any verified user)
+    /// @param requireAccredited Whether users must be flagged as accredited investors
+    /// @param minIncomeBand Lowest accepted income or net-worth band (0 accepts any)
+    /// @param maxRiskScore Highest accepted AML risk score (0 disables the check)
+    function setProjectRequirements(
+        address projectAddress,
+        uint32 minAge,
+        uint256 allowedCountryMask,
+        uint8 acceptedDocumentTypes,
+        uint256 maxVerificationAge,
+        KYCTier minTier,
+        bool requireAccredited,
+        uint8 minIncomeBand,
+        uint8 maxRiskScore
+    ) external onlyProjectManager {
+        _requireValidPolicy(projectAddress, allowedCountryMask, acceptedDocumentTypes, minIncomeBand, maxRiskScore);
+
+        bytes32 policyHash = keccak256(
+            abi.encode(
+                minAge,
+                allowedCountryMask,
+                acceptedDocumentTypes,
+                maxVerificationAge,
+                minTier,
+                requireAccredited,
+                minIncomeBand,
+                maxRiskScore
+            )
+        );
+
+        projectRequirements[projectAddress] = KYCRequirement({
+            minAge: minAge,
+            allowedCountryMask: allowedCountryMask,
+            acceptedDocumentTypes: acceptedDocumentTypes,
+            isActive: true,
+            maxVerificationAge: maxVerificationAge,
+            policyHash: policyHash,
+            minTier: minTier,
+            requireAccredited: requireAccredited,
+            minIncomeBand: minIncomeBand,
+            maxRiskScore: maxRiskScore
+        });
+
+        emit ProjectRequirementSet(
+            projectAddress,
+            minAge,
+            allowedCountryMask,
+            acceptedDocumentTypes,
+            maxVerificationAge,
+            minTier,
+            requireAccredited,
+            minIncomeBand,
+            maxRiskScore,
+            policyHash
+        );
     }
 
+    /// @notice Activate or deactivate a registered project policy
+    /// @param projectAddress Address of the project
+    /// @param isActive Whether the project may run eligibility checks
+    function setProjectActive(address projectAddress, bool isActive) external onlyProjectManager {
+        if (projectRequirements[projectAddress].policyHash == bytes32(0)) {
+            revert InvalidInput();
+        }
+
+        projectRequirements[projectAddress].isActive = isActive;
+
+        emit ProjectStatusChanged(projectAddress, isActive);
+    }
+
+    /// @notice Allow a project to run eligibility checks on the caller
+    /// @param projectAddress Address of the project
+    /// @param expiresAt Time after which the consent lapses (0 for no time limit)
+    function grantConsent(address projectAddress, uint256 expiresAt) external {
+        if (projectAddress == address(0) || (expiresAt != 0 && expiresAt <= block.timestamp)) {
+            revert InvalidInput();
+        }
+
+        if (consentExpiry[msg.sender][projectAddress] == 0) {
+            userConsentProjects[msg.sender].push(projectAddress);
+        }
+        consentExpiry[msg.sender][projectAddress] = expiresAt == 0 ? type(uint256).max : expiresAt;
+
+        emit ConsentGranted(msg.sender, projectAddress, expiresAt);
+    }
+
+    /// @notice Withdraw a project's permission to run eligibility checks on the caller
+    /// @param projectAddress Address of the project
+    function revokeConsent(address projectAddress) external {
+        if (consentExpiry[msg.sender][projectAddress] == 0) {
+            revert InvalidInput();
+        }
+
+        consentExpiry[msg.sender][projectAddress] = 0;
+        _removeConsentProject(msg.sender, projectAddress);
+
+        emit ConsentRevoked(msg.sender, projectAddress);
+    }
+
+    /// @notice Check whether a user currently consents to eligibility checks by a project
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    /// @return consented Whether the project may check the user's eligibility
+    function hasConsent(address user, address projectAddress) public view returns (bool consented) {
+        return block.timestamp <= consentExpiry[user][projectAddress];
+    }
+
+    /// @notice Get every project a user has granted consent to, including consents that have lapsed
+    /// @param user Address of the user
+    /// @return projects Project addresses
+    /// @return expiresAt Consent expiry per project (type(uint256).max for no time limit)
+    function getConsents(address user) external view returns (address[] memory projects, uint256[] memory expiresAt) {
+        projects = userConsentProjects[user];
+        expiresAt = new uint256[](projects.length);
+        for (uint256 i = 0; i < projects.length; ++i) {
+            expiresAt[i] = consentExpiry[user][projects[i]];
+        }
+    }
+
+    /// @notice Check if user meets the calling project's stored requirements without revealing specific data
+    /// @dev Approvals issued by a verifier whose approvals were invalidated are invalidated here and yield ineligible
+    /// @param user Address of the user
+    /// @return eligible Encrypted eligibility result, decryptable by the calling project
+    function checkEligibility(
+        address user
+    ) external whenNotPaused(this.checkEligibility.selector) returns (ebool eligible) {
+        return _checkEligibility(user);
+    }
+
+    /// @notice Check many users against the calling project's stored policy in one transaction
+    /// @dev Each user is checked like checkEligibility; instead of reverting, users that are not verified, have not
+    /// consented or whose verification is too old emit EligibilityCheckSkipped. Results are read per user through
+    /// getCheckEligibilityResult.
+    /// @param users Addresses of the users to check
+    /// @return checkedCount Number of users whose eligibility was evaluated
+    function checkEligibilityBatch(
+        address[] calldata users
+    ) external whenNotPaused(this.checkEligibility.selector) returns (uint256 checkedCount) {
+        if (users.length == 0) {
+            revert InvalidInput();
+        }
+
+        KYCRequirement storage requirement = projectRequirements[msg.sender];
+        if (!requirement.isActive) {
+            revert ProjectNotActive();
+        }
+
+        for (uint256 i = 0; i < users.length; ++i) {
+            EligibilitySkipReason reason = _eligibilitySkipReason(users[i], msg.sender, requirement);
+            if (reason == EligibilitySkipReason.None) {
+                _storeEligibilityResult(users[i], _evaluateApprovedUser(users[i], requirement));
+                ++checkedCount;
+            } else {
+                emit EligibilityCheckSkipped(users[i], msg.sender, reason);
+            }
+        }
+
+        emit EligibilityBatchChecked(msg.sender, checkedCount, users.length - checkedCount);
+    }
+
+    /// @notice Check eligibility like checkEligibility and request public decryption of the result
+    /// @dev Opt-in: the result becomes public once the decryption oracle calls back eligibilityDecryptionCallback
+    /// @param user Address of the user
+    /// @return requestId Identifier of the decryption request
+    function requestPublicEligibility(
+        address user
+    ) external whenNotPaused(this.checkEligibility.selector) returns (uint256 requestId) {
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(_checkEligibility(user));
+
+        requestId = FHE.requestDecryption(handles, this.eligibilityDecryptionCallback.selector);
+        eligibilityRequests[requestId] = EligibilityRequest({
+            user: user,
+            projectAddress: msg.sender,
+            checkedAt: block.timestamp,
+            policyHash: projectRequirements[msg.sender].policyHash
+        });
+
+        emit EligibilityDecryptionRequested(user, msg.sender, requestId);
+    }
+
+    /// @notice Record a publicly decrypted eligibility result (only callable by the decryption oracle)
+    /// @param requestId Identifier of the decryption request
+    /// @param eligible Decrypted eligibility result
+    /// @param signatures KMS signatures over the decrypted result
+    function eligibilityDecryptionCallback(uint256 requestId, bool eligible, bytes[] calldata signatures) external {
+        FHE.checkSignatures(requestId, signatures);
+
+        EligibilityRequest memory request = eligibilityRequests[requestId];
+        if (request.user == address(0)) {
+            revert InvalidInput();
+        }
+        delete eligibilityRequests[requestId];
+
+        // The approval may have been erased, revoked or renewed while decryption was pending
+        EncryptedKYCData storage data = userKYCData[request.user];
+        if (data.status != KYCStatus.Approved || data.verificationTimestamp > request.checkedAt) {
+            return;
+        }
+        userProjectEligibility[request.user][request.projectAddress] = eligible;
+        publicEligibilityChecks[request.user][request.projectAddress] = PublicEligibilityCheck({
+            checkedAt: request.checkedAt,
+            policyHash: request.policyHash
+        });
+
+        emit EligibilityChecked(request.user, request.projectAddress, eligible);
+    }
+
+    /// @notice Read a publicly decrypted eligibility result
+    /// @dev Reads as ineligible once the approval behind it is revoked, invalidated or too old for the project
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project that requested the result
+    /// @return eligible Whether the user was eligible and the approval behind the result still holds
+    /// @return checkedAt Timestamp of the eligibility check, zero if none was published
+    /// @return policyHash Hash of the project policy the user was checked against
+    function getPublicEligibility(
+        address user,
+        address projectAddress
+    ) external view returns (bool eligible, uint256 checkedAt, bytes32 policyHash) {
+        EncryptedKYCData storage data = userKYCData[user];
+        PublicEligibilityCheck storage check = publicEligibilityChecks[user][projectAddress];
+        eligible =
+            userProjectEligibility[user][projectAddress] &&
+            data.status == KYCStatus.Approved &&
+            !_isInvalidatedByVerifier(data) &&
+            !_isVerificationStale(data, projectRequirements[projectAddress]);
+        return (eligible, check.checkedAt, check.policyHash);
+    }
+
+    /// @notice Get the encrypted result of a project's latest eligibility check of a user
+    /// @param project Address of the project that ran the check
+    /// @param user Address of the user
+    /// @return Encrypted eligibility result, decryptable by the project; a zero handle if no check is stored
     function getCheckEligibilityResult(address project, address user) public view returns (ebool) {
         return checkEligibilityResults[project][user];
     }
 
-    /// @notice Generate a proof of eligibility for a project
+    /// @notice Generate a proof of eligibility for a project against that project's stored requirements
+    /// @dev The proof is a non-zero value if the caller is eligible and zero otherwise
+    /// @param projectAddress Address of the project
+    /// @return proof Encrypted proof of eligibility, decryptable by the caller and the project
+    function generateProof(
+        address projectAddress
+    ) external whenNotPaused(this.generateProof.selector) returns (euint256 proof) {
+        ebool eligible = _evaluateEligibility(msg.sender, projectAddress);
+
+        proof = FHE.select(
+            eligible,
+            FHE.asEuint256(uint256(keccak256(abi.encodePacked(msg.sender, projectAddress, block.timestamp)))),
+            FHE.asEuint256(0)
+        );
+
+        FHE.allowThis(proof);
+        FHE.allow(proof, msg.sender);
+        FHE.allow(proof, projectAddress);
+
+        if (!FHE.isInitialized(projectProofs[msg.sender][projectAddress])) {
+            userProofProjects[msg.sender].push(projectAddress);
+        }
+        projectProofs[msg.sender][projectAddress] = proof;
+
+        emit ProofGenerated(msg.sender, projectAddress, projectRequirements[projectAddress].policyHash);
+    }
+
+    /// @notice Get the latest proof a user generated for a project
+    /// @param user Address of the user
     /// @param projectAddress Address of the project
-    /// @param minAge Minimum age requirement
-    /// @param allowedCountries Array of allowed country codes
-    /// @param requiresPassport Whether passport verification is required
     /// @return proof Encrypted proof of eligibility
-    // function generateProof(
-    //     address projectAddress,
-    //     uint32 minAge,
-    //     uint8[] calldata allowedCountries,
-    //     bool requiresPassport
-    // ) external returns (euint256 proof) {
-    //     if (!projectRequirements[projectAddress]) {
-    //         revert InvalidInput();
-    //     }
-
-    //     if (!userKYCData[msg.sender].isVerified) {
-    //         revert UserNotVerified();
-    //     }
-
-    //     // Use the stored encrypted KYC data directly
-    //     EncryptedKYCData storage userData = userKYCData[msg.sender];
-
-    //     // Check age requirement
-    //     euint32 currentYear = FHE.asEuint32(uint32(block.timestamp / 365 days + 1970));
-    //     euint32 userAge = FHE.sub(currentYear, userData.birthYear);
-    //     euint32 requiredMinAge = FHE.asEuint32(minAge);
-    //     ebool ageEligible = FHE.ge(userAge, requiredMinAge);
-
-    //     // Check country requirement
-    //     ebool countryEligible = FHE.asEbool(false);
-    //     for (uint256 i = 0; i < allowedCountries.length; i++) {
-    //         euint8 allowedCountry = FHE.asEuint8(allowedCountries[i]);
-    //         ebool countryAllowed = FHE.eq(userData.countryCode, allowedCountry);
-    //         countryEligible = FHE.or(countryEligible, countryAllowed);
-    //     }
-
-    //     // Check passport requirement
-    //     ebool passportEligible = FHE.asEbool(true);
-    //     if (requiresPassport) {
-    //         passportEligible = FHE.ne(userData.passportAddress, FHE.asEaddress(address(0)));
-    //     }
-
-    //     ebool eligible = FHE.and(FHE.and(ageEligible, countryEligible), passportEligible);
-
-    //     euint256 proofValue = FHE.select(
-    //         eligible,
-    //         FHE.asEuint256(uint256(keccak256(abi.encodePacked(msg.sender, projectAddress, block.timestamp)))),
-    //         FHE.asEuint256(0)
-    //     );
-
-    //     userProjectEligibility[msg.sender][projectAddress] = true;
-
-    //     FHE.allowThis(proofValue);
-    //     FHE.allow(proofValue, msg.sender);
-
-    //     emit EligibilityChecked(msg.sender, projectAddress, true);
-
-    //     return proofValue;
-    // }
-
-    /// @notice Authorize or deauthorize a KYC verifier
+    function getProjectProof(address user, address projectAddress) external view returns (euint256 proof) {
+        return projectProofs[user][projectAddress];
+    }
+
+    /// @notice Get every project a user has generated a proof for
+    /// @param user Address of the user
+    /// @return projects Project addresses in the order the first proof was generated
+    function getProofProjects(address user) external view returns (address[] memory projects) {
+        return userProofProjects[user];
+    }
+
+    /// @notice Get the eligibility policy registered for a project
+    /// @param projectAddress Address of the project
+    /// @return requirement Stored policy of the project
+    function getProjectRequirements(address projectAddress) external view returns (KYCRequirement memory requirement) {
+        return projectRequirements[projectAddress];
+    }
+
+    /// @notice Compute the latest date of birth, packed as YYYYMMDD, of someone who is at least minAge years old today
+    /// @dev Dates are UTC; someone born on February 29 is treated as a year older on March 1 in non-leap years
+    /// @param minAge Minimum age in years
+    /// @return cutoff Latest eligible date of birth (0 if nobody can be old enough)
+    function getAgeCutoffDate(uint32 minAge) public view returns (uint32 cutoff) {
+        (uint256 year, uint256 month, uint256 day) = KYCEligibility.civilDate(block.timestamp);
+        if (minAge > year) {
+            return 0;
+        }
+        return uint32((year - minAge) * 10000 + month * 100 + day);
+    }
+
+    /// @notice Set how long a KYC approval stays valid before re-verification is required
+    /// @param validity Validity period in seconds
+    function setDefaultVerificationValidity(uint256 validity) external onlyAdmin {
+        if (validity == 0) {
+            revert InvalidInput();
+        }
+
+        defaultVerificationValidity = validity;
+        emit DefaultVerificationValidityUpdated(validity);
+    }
+
+    /// @notice Set how many distinct verifiers must approve a submission before the user is verified
+    /// @dev Approvals already recorded count towards the new quorum once the next approval of the submission arrives
+    /// @param quorum Number of approvals required (at least one)
+    function setVerificationQuorum(uint256 quorum) external onlyAdmin {
+        if (quorum == 0) {
+            revert InvalidInput();
+        }
+
+        verificationQuorum = quorum;
+        emit VerificationQuorumUpdated(quorum);
+    }
+
+    /// @notice Require or stop requiring a verifier to co-sign wallet migrations
+    /// @param required Whether acceptMigration needs a prior approveMigration
+    function setMigrationRequiresVerifier(bool required) external onlyAdmin {
+        migrationRequiresVerifier = required;
+        emit MigrationRequiresVerifierUpdated(required);
+    }
+
+    /// @notice Halt every pausable function or a single one, e.g. while a compromised verifier key is revoked
+    /// @dev Pausable functions are submitKYC, assignVerifier, verifyKYC, addBlocklistEntries, screenKYC,
+    /// approveMigration, checkEligibility and generateProof. Pausing verifyKYC also halts verifyKYCBatch, rejectKYC,
+    /// setInvestorAttributes and updateRiskScore; pausing checkEligibility also halts checkEligibilityBatch and
+    /// requestPublicEligibility. Admin functions, setProjectRequirements, consent changes and deleteKYC are never
+    /// paused.
+    /// @param selector Selector of a pausable function, or zero to pause all of them
+    function pause(bytes4 selector) external onlyAdmin {
+        _setPaused(selector, true);
+        emit Paused(msg.sender, selector);
+    }
+
+    /// @notice Lift a global pause or the pause of a single function
+    /// @dev Lifting the global pause leaves functions paused on their own halted
+    /// @param selector Selector of a pausable function, or zero to lift the global pause
+    function unpause(bytes4 selector) external onlyAdmin {
+        _setPaused(selector, false);
+        emit Unpaused(msg.sender, selector);
+    }
+
+    /// @notice Check whether a pausable function is halted, either globally or on its own
+    /// @param selector Selector of a pausable function
+    /// @return halted Whether calls to the function revert with ContractPaused
+    function isPaused(bytes4 selector) public view returns (bool halted) {
+        return paused || pausedFunctions[selector];
+    }
+
+    /// @notice Grant a verifier, project manager or auditor role to an account
+    /// @dev The admin role cannot be granted; it moves through transferAdmin and acceptAdmin
+    /// @param role Role identifier, e.g. VERIFIER_ROLE
+    /// @param account Address receiving the role
+    function grantRole(bytes32 role, address account) external onlyAdmin {
+        if (account == address(0) || !_isGrantableRole(role)) {
+            revert InvalidInput();
+        }
+        _grantRole(role, account);
+    }
+
+    /// @notice Revoke a verifier, project manager or auditor role from an account
+    /// @dev Revoking VERIFIER_ROLE keeps the verifier's past approvals; use deauthorizeVerifier to invalidate them
+    /// @param role Role identifier, e.g. VERIFIER_ROLE
+    /// @param account Address losing the role
+    function revokeRole(bytes32 role, address account) external onlyAdmin {
+        if (!_isGrantableRole(role)) {
+            revert InvalidInput();
+        }
+        _revokeRole(role, account);
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role Role identifier, e.g. VERIFIER_ROLE
+    /// @param account Address to check
+    /// @return granted Whether the account holds the role
+    function hasRole(bytes32 role, address account) public view returns (bool granted) {
+        if (role == ADMIN_ROLE) {
+            return account == admin;
+        }
+        return roleMembers[role][account];
+    }
+
+    /// @notice Start handing the admin role to another account, which must call acceptAdmin to complete the transfer
+    /// @dev Passing address(0) cancels a pending transfer
+    /// @param newAdmin Address of the proposed admin
+    function transferAdmin(address newAdmin) external onlyAdmin {
+        if (newAdmin == admin) {
+            revert InvalidInput();
+        }
+
+        pendingAdmin = newAdmin;
+        emit AdminTransferStarted(admin, newAdmin);
+    }
+
+    /// @notice Accept a pending admin transfer (only the proposed admin)
+    /// @dev Other roles held by the previous admin are kept until revoked
+    function acceptAdmin() external {
+        if (msg.sender != pendingAdmin) {
+            revert NotPendingAdmin();
+        }
+
+        address previousAdmin = admin;
+        admin = msg.sender;
+        pendingAdmin = address(0);
+
+        emit AdminTransferred(previousAdmin, msg.sender);
+    }
+
+    /// @notice Deauthorize a verifier and invalidate every approval it issued so far
+    /// @dev Affected users are invalidated lazily, see applyVerifierInvalidation
     /// @param verifier Address of the verifier
-    /// @param authorized Whether to authorize or deauthorize
-    function setAuthorizedVerifier(address verifier, bool authorized) external onlyAdmin {
-        authorizedVerifiers[verifier] = authorized;
-        emit VerifierAuthorized(verifier, authorized);
+    /// @param mode Revoke the approvals outright or send them back for re-review
+    function deauthorizeVerifier(address verifier, InvalidationMode mode) external onlyAdmin {
+        if (verifier == admin || mode == InvalidationMode.None) {
+            revert InvalidInput();
+        }
+
+        _revokeRole(VERIFIER_ROLE, verifier);
+        verifierInvalidations[verifier] = VerifierInvalidation({mode: mode, invalidatedAt: block.timestamp});
+
+        emit VerifierApprovalsInvalidated(verifier, mode, block.timestamp);
+    }
+
+    /// @notice Apply a pending verifier invalidation to a user's approval
+    /// @param user Address of the user
+    /// @return invalidated Whether the user's approval was invalidated
+    function applyVerifierInvalidation(address user) external returns (bool invalidated) {
+        return _applyVerifierInvalidation(user);
     }
 
     /// @notice Get user's encrypted KYC data
     /// @param user Address of the user
-    /// @return passportAddress Encrypted passport address
-    /// @return birthYear Encrypted birth year
+    /// @return documentNumber Encrypted document number encoded as address
+    /// @return dateOfBirth Encrypted date of birth (YYYYMMDD)
     /// @return countryCode Encrypted country code
-    function getUserKYCData(address user) external view returns (eaddress, euint32, euint8) {
-        EncryptedKYCData memory data = userKYCData[user];
-        return (data.passportAddress, data.birthYear, data.countryCode);
+    /// @return documentType Encrypted document type
+    /// @return documentExpiry Encrypted document expiry date (YYYYMMDD)
+    function getUserKYCData(address user) external view returns (eaddress, euint32, euint8, euint8, euint32) {
+        EncryptedKYCData storage data = userKYCData[user];
+        return (data.documentNumber, data.dateOfBirth, data.countryCode, data.documentType, data.documentExpiry);
+    }
+
+    /// @notice Get a user's encrypted investor attributes
+    /// @dev Both handles are zero until a verifier called setInvestorAttributes
+    /// @param user Address of the user
+    /// @return accredited Encrypted accredited-investor status
+    /// @return incomeBand Encrypted income or net-worth band
+    function getInvestorAttributes(address user) external view returns (ebool accredited, euint8 incomeBand) {
+        EncryptedKYCData storage data = userKYCData[user];
+        return (data.accredited, data.incomeBand);
+    }
+
+    /// @notice Get a user's encrypted AML risk score
+    /// @dev Zero until an approval or updateRiskScore assigns one; only the assigning verifier can decrypt it
+    /// @param user Address of the user
+    /// @return riskScore Encrypted risk score
+    function getRiskScore(address user) external view returns (euint8 riskScore) {
+        return userKYCData[user].riskScore;
     }
 
     /// @notice Check if user is verified
     /// @param user Address of the user
-    /// @return verified Whether user is verified
+    /// @return verified Whether user holds an approval that has not expired
     /// @return timestamp Verification timestamp
     /// @return verifier Address of verifier
+    /// @return expiresAt Time after which the approval needs re-verification (0 if never approved)
+    /// @return approvals Approvals recorded for the current submission towards the quorum
+    /// @return quorum Number of approvals required to verify a submission
+    /// @return tier Assurance tier of the current approval (None while the user is not verified)
     function getVerificationStatus(
         address user
-    ) external view returns (bool verified, uint256 timestamp, address verifier) {
-        EncryptedKYCData memory data = userKYCData[user];
-        return (data.isVerified, data.verificationTimestamp, data.verifiedBy);
+    )
+        external
+        view
+        returns (
+            bool verified,
+            uint256 timestamp,
+            address verifier,
+            uint256 expiresAt,
+            uint256 approvals,
+            uint256 quorum,
+            KYCTier tier
+        )
+    {
+        EncryptedKYCData storage data = userKYCData[user];
+        if (data.status == KYCStatus.Approved) {
+            expiresAt = _verificationExpiry(data);
+            verified = block.timestamp <= expiresAt && !_isInvalidatedByVerifier(data);
+        }
+        return (
+            verified,
+            data.verificationTimestamp,
+            data.verifiedBy,
+            expiresAt,
+            data.approvers.length,
+            verificationQuorum,
+            verified ? data.tier : KYCTier.None
+        );
+    }
+
+    /// @notice Get the verifiers that approved a user's current submission so far
+    /// @param user Address of the user
+    /// @return approvers Addresses of the approving verifiers, in approval order
+    function getVerificationApprovers(address user) external view returns (address[] memory approvers) {
+        return userKYCData[user].approvers;
+    }
+
+    /// @notice Get the verifiers that counted towards the quorum of a user's current approval
+    /// @param user Address of the user
+    /// @return approvedBy Addresses of the approving verifiers, in approval order
+    function getApprovingVerifiers(address user) external view returns (address[] memory approvedBy) {
+        return userKYCData[user].approvedBy;
+    }
+
+    /// @notice Get the encrypted blocklist screening result of a user
+    /// @param user Address of the user
+    /// @return blocklisted Encrypted flag, true if the document number matched a screened entry
+    /// @return screenedEntries Number of blocklist entries the user has been screened against
+    function getBlocklistScreening(address user) external view returns (ebool blocklisted, uint256 screenedEntries) {
+        EncryptedKYCData storage data = userKYCData[user];
+        return (data.blocklisted, data.screenedEntries);
+    }
+
+    /// @notice Get the number of entries on the blocklist
+    /// @return size Number of blocklist entries
+    function getBlocklistSize() external view returns (uint256 size) {
+        return blocklist.length;
+    }
+
+    /// @notice Check whether a document fingerprint is held by an approved user other than the given one
+    /// @param documentFingerprint Keyed fingerprint of a document
+    /// @param user Address of the user who would claim the document
+    /// @return duplicate Whether verifying the user with this fingerprint would revert with DuplicateDocument
+    function isDuplicateDocument(bytes32 documentFingerprint, address user) public view returns (bool duplicate) {
+        address holder = documentHolders[documentFingerprint];
+        if (holder == address(0) || holder == user) {
+            return false;
+        }
+
+        // The claim lapses once the holder resubmits or loses their approval
+        EncryptedKYCData storage holderData = userKYCData[holder];
+        return
+            holderData.documentFingerprint == documentFingerprint &&
+            holderData.status == KYCStatus.Approved &&
+            !_isInvalidatedByVerifier(holderData);
+    }
+
+    /// @notice Get the verifier a user assigned to their submission
+    /// @param user Address of the user
+    /// @return verifier Assigned verifier (address(0) if any authorized verifier may review)
+    function getAssignedVerifier(address user) external view returns (address verifier) {
+        return userKYCData[user].assignedVerifier;
+    }
+
+    /// @notice Get the review status of a user's KYC submission
+    /// @param user Address of the user
+    /// @return status Current review status
+    /// @return rejectionReason Reason code of the last rejection (0 unless rejected)
+    function getKYCStatus(address user) external view returns (KYCStatus status, uint8 rejectionReason) {
+        EncryptedKYCData storage data = userKYCData[user];
+        return (data.status, data.rejectionReason);
     }
 
     /// @notice Check if user has generated proof for a project
@@ -278,6 +1375,539 @@ contract SecureKYC is SepoliaConfig {
     /// @param projectAddress Address of the project
     /// @return hasProof Whether user has proof for the project
     function hasProjectProof(address user, address projectAddress) external view returns (bool hasProof) {
-        return userProjectEligibility[user][projectAddress];
+        return FHE.isInitialized(projectProofs[user][projectAddress]);
+    }
+
+    /// @notice Evaluate the calling project's stored policy for a user and store the encrypted result
+    /// @param user Address of the user
+    /// @return eligible Encrypted eligibility result, decryptable by the calling project
+    function _checkEligibility(address user) internal returns (ebool eligible) {
+        eligible = _evaluateEligibility(user, msg.sender);
+        _storeEligibilityResult(user, eligible);
+    }
+
+    /// @notice Store an eligibility result for the calling project and let the project decrypt it
+    /// @param user Address of the user
+    /// @param eligible Encrypted eligibility result
+    function _storeEligibilityResult(address user, ebool eligible) internal {
+        FHE.allowThis(eligible);
+        FHE.allow(eligible, msg.sender);
+
+        if (!FHE.isInitialized(checkEligibilityResults[msg.sender][user])) {
+            userCheckedProjects[user].push(msg.sender);
+        }
+        checkEligibilityResults[msg.sender][user] = eligible;
+
+        emit EligibilityCheckPerformed(user, msg.sender, projectRequirements[msg.sender].policyHash);
+    }
+
+    /// @notice Determine why the caller may not verify a user with the given document fingerprint
+    /// @param user Address of the user to verify
+    /// @param documentFingerprint Keyed fingerprint of the user's document
+    /// @return reason VerificationSkipReason.None if the user can be verified
+    function _verificationSkipReason(
+        address user,
+        bytes32 documentFingerprint
+    ) internal view returns (VerificationSkipReason reason) {
+        EncryptedKYCData storage data = userKYCData[user];
+        if (_isAssignedToOtherVerifier(data)) {
+            return VerificationSkipReason.AssignedToOtherVerifier;
+        }
+        // Approvals can be refreshed at any time, e.g. once too old for a project's maxVerificationAge
+        if (data.status != KYCStatus.Pending && data.status != KYCStatus.Approved) {
+            return VerificationSkipReason.NotAwaitingVerification;
+        }
+        if (documentFingerprint == bytes32(0)) {
+            return VerificationSkipReason.InvalidFingerprint;
+        }
+        if (isDuplicateDocument(documentFingerprint, user)) {
+            return VerificationSkipReason.DuplicateDocument;
+        }
+        return _approvalSkipReason(data, documentFingerprint);
+    }
+
+    /// @notice Determine why the caller's approval cannot count towards the quorum of a submission
+    /// @param data KYC record of the user
+    /// @param documentFingerprint Keyed fingerprint of the user's document
+    /// @return reason VerificationSkipReason.None if the approval can be recorded
+    function _approvalSkipReason(
+        EncryptedKYCData storage data,
+        bytes32 documentFingerprint
+    ) internal view returns (VerificationSkipReason reason) {
+        if (data.approvers.length == 0) {
+            return VerificationSkipReason.None;
+        }
+        if (documentFingerprint != data.approvalFingerprint) {
+            return VerificationSkipReason.FingerprintMismatch;
+        }
+        for (uint256 i = 0; i < data.approvers.length; ++i) {
+            if (data.approvers[i] == msg.sender) {
+                return VerificationSkipReason.AlreadyApproved;
+            }
+        }
+        return VerificationSkipReason.None;
+    }
+
+    /// @notice Record the caller's approval of a user and verify the user once the quorum is reached
+    /// @dev Approvals from verifiers that lost the verifier role no longer count towards the quorum
+    /// @param user Address of the user
+    /// @param documentFingerprint Keyed fingerprint of the user's document
+    /// @param tier Assurance tier vouched for by the caller; the user receives the lowest tier of all approvals
+    /// @param riskScore Risk score assessed by the caller (zero handle if none); the user receives the highest score
+    function _recordApproval(address user, bytes32 documentFingerprint, KYCTier tier, euint8 riskScore) internal {
+        EncryptedKYCData storage data = userKYCData[user];
+        if (data.approvers.length == 0 || tier < data.approvalTier) {
+            data.approvalTier = tier;
+        }
+        if (FHE.isInitialized(riskScore)) {
+            if (FHE.isInitialized(data.approvalRiskScore)) {
+                riskScore = FHE.max(data.approvalRiskScore, riskScore);
+                FHE.allowThis(riskScore);
+            }
+            data.approvalRiskScore = riskScore;
+        }
+        data.approvers.push(msg.sender);
+        data.approvalFingerprint = documentFingerprint;
+
+        uint256 approvals = 0;
+        for (uint256 i = 0; i < data.approvers.length; ++i) {
+            if (hasRole(VERIFIER_ROLE, data.approvers[i])) {
+                ++approvals;
+            }
+        }
+        emit KYCApprovalRecorded(user, msg.sender, approvals, verificationQuorum);
+
+        if (approvals >= verificationQuorum) {
+            KYCTier approvedTier = data.approvalTier;
+            euint8 approvedRiskScore = data.approvalRiskScore;
+            _keepApprovingVerifiers(data);
+            _clearApprovals(data);
+            _approveKYC(user, documentFingerprint, approvedTier, approvedRiskScore);
+        }
+    }
+
+    /// @notice Keep the verifiers that counted towards a completed quorum with the approval
+    /// @dev Deauthorizing any of them with an invalidation mode then invalidates the approval
+    /// @param data KYC record of the user
+    function _keepApprovingVerifiers(EncryptedKYCData storage data) internal {
+        delete data.approvedBy;
+        for (uint256 i = 0; i < data.approvers.length; ++i) {
+            if (hasRole(VERIFIER_ROLE, data.approvers[i])) {
+                data.approvedBy.push(data.approvers[i]);
+            }
+        }
+    }
+
+    /// @notice Discard the approvals collected for a submission
+    /// @param data KYC record of the user
+    function _clearApprovals(EncryptedKYCData storage data) internal {
+        delete data.approvers;
+        data.approvalFingerprint = bytes32(0);
+        data.approvalTier = KYCTier.None;
+        data.approvalRiskScore = euint8.wrap(0);
+    }
+
+    /// @notice Approve a user, record them as the holder of their document and screen them against the blocklist
+    /// @dev Screens at most SCREENING_BATCH_SIZE entries; screenKYC works off the rest
+    /// @param user Address of the user to approve
+    /// @param documentFingerprint Keyed fingerprint of the user's document
+    /// @param tier Assurance tier granted by the approval
+    /// @param riskScore Risk score assigned by the approval (zero handle if none)
+    function _approveKYC(address user, bytes32 documentFingerprint, KYCTier tier, euint8 riskScore) internal {
+        EncryptedKYCData storage data = userKYCData[user];
+        data.documentFingerprint = documentFingerprint;
+        documentHolders[documentFingerprint] = user;
+
+        uint256 end = data.screenedEntries + SCREENING_BATCH_SIZE;
+        _screenAgainstBlocklist(data, end < blocklist.length ? end : blocklist.length);
+        FHE.allow(data.blocklisted, msg.sender);
+
+        data.status = KYCStatus.Approved;
+        data.verificationTimestamp = block.timestamp;
+        data.verifiedBy = msg.sender;
+        data.tier = tier;
+        data.riskScore = riskScore;
+        // Scores assigned on approval fall with the approval, which the invalidation cascade already covers
+        delete data.riskScoreAttestation;
+
+        emit KYCVerified(user, msg.sender, block.timestamp);
+        emit KYCTierAssigned(user, tier);
+        if (FHE.isInitialized(riskScore)) {
+            FHE.allow(riskScore, msg.sender);
+            emit RiskScoreUpdated(user, msg.sender);
+        }
+    }
+
+    /// @notice Verify an encrypted risk score input, cap it at MAX_RISK_SCORE and let the contract and caller use it
+    /// @param riskScore Encrypted AML risk score
+    /// @param inputProof Proof for the encrypted risk score
+    /// @return score Capped risk score
+    function _toRiskScore(externalEuint8 riskScore, bytes calldata inputProof) internal returns (euint8 score) {
+        score = FHE.min(FHE.fromExternal(riskScore, inputProof), MAX_RISK_SCORE);
+        FHE.allowThis(score);
+        FHE.allow(score, msg.sender);
+    }
+
+    /// @notice Drop every stored and published eligibility result of a user
+    /// @param user Address of the user
+    function _clearEligibilityResults(address user) internal {
+        address[] storage projects = userCheckedProjects[user];
+        for (uint256 i = 0; i < projects.length; ++i) {
+            checkEligibilityResults[projects[i]][user] = ebool.wrap(0);
+            delete userProjectEligibility[user][projects[i]];
+            delete publicEligibilityChecks[user][projects[i]];
+        }
+        delete userCheckedProjects[user];
+    }
+
+    /// @notice Drop every proof a user generated and every consent they granted
+    /// @param user Address of the user
+    function _clearProofsAndConsents(address user) internal {
+        _clearProofs(user);
+
+        address[] storage consentProjects = userConsentProjects[user];
+        for (uint256 i = 0; i < consentProjects.length; ++i) {
+            delete consentExpiry[user][consentProjects[i]];
+        }
+        delete userConsentProjects[user];
+    }
+
+    /// @notice Drop every proof a user generated
+    /// @param user Address of the user
+    function _clearProofs(address user) internal {
+        address[] storage projects = userProofProjects[user];
+        for (uint256 i = 0; i < projects.length; ++i) {
+            projectProofs[user][projects[i]] = euint256.wrap(0);
+        }
+        delete userProofProjects[user];
+    }
+
+    /// @notice Remove a project from a user's consent list
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project
+    function _removeConsentProject(address user, address projectAddress) internal {
+        address[] storage projects = userConsentProjects[user];
+        for (uint256 i = 0; i < projects.length; ++i) {
+            if (projects[i] == projectAddress) {
+                projects[i] = projects[projects.length - 1];
+                projects.pop();
+                return;
+            }
+        }
+    }
+
+    /// @notice Revert with InvalidInput unless the settings form a valid project policy
+    /// @param projectAddress Address of the project
+    /// @param allowedCountryMask Bitmask of allowed country codes
+    /// @param acceptedDocumentTypes Bitmask of accepted document types
+    /// @param minIncomeBand Lowest accepted income or net-worth band
+    /// @param maxRiskScore Highest accepted AML risk score
+    function _requireValidPolicy(
+        address projectAddress,
+        uint256 allowedCountryMask,
+        uint8 acceptedDocumentTypes,
+        uint8 minIncomeBand,
+        uint8 maxRiskScore
+    ) internal pure {
+        // Bit 0 stands for the unset country code and must never be allowed
+        if (projectAddress == address(0) || allowedCountryMask == 0 || allowedCountryMask & 1 != 0) {
+            revert InvalidInput();
+        }
+        // Likewise bit 0 of the document mask, and bits above the highest known type
+        if (acceptedDocumentTypes & 1 != 0 || acceptedDocumentTypes >> (MAX_DOCUMENT_TYPE + 1) != 0) {
+            revert InvalidInput();
+        }
+        if (minIncomeBand > MAX_INCOME_BAND || maxRiskScore > MAX_RISK_SCORE) {
+            revert InvalidInput();
+        }
+    }
+
+    /// @notice Evaluate a project's stored policy for a user holding a current approval and consent
+    /// @dev Reverts when the policy cannot be evaluated; see _eligibilitySkipReason
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project whose policy applies
+    /// @return eligible Encrypted eligibility result
+    function _evaluateEligibility(address user, address projectAddress) internal returns (ebool eligible) {
+        KYCRequirement storage requirement = projectRequirements[projectAddress];
+        EligibilitySkipReason reason = _eligibilitySkipReason(user, projectAddress, requirement);
+        if (reason == EligibilitySkipReason.UserNotVerified) {
+            revert UserNotVerified();
+        }
+        if (!requirement.isActive) {
+            revert ProjectNotActive();
+        }
+        if (reason == EligibilitySkipReason.ConsentRequired) {
+            revert ConsentRequired();
+        }
+        if (reason == EligibilitySkipReason.VerificationExpired) {
+            revert VerificationExpired();
+        }
+        if (reason == EligibilitySkipReason.ScreeningIncomplete) {
+            revert ScreeningIncomplete();
+        }
+
+        return _evaluateApprovedUser(user, requirement);
+    }
+
+    /// @notice Determine why a project's policy cannot be evaluated for a user
+    /// @param user Address of the user
+    /// @param projectAddress Address of the project whose policy applies
+    /// @param requirement Stored policy of the project
+    /// @return reason EligibilitySkipReason.None if the policy can be evaluated
+    function _eligibilitySkipReason(
+        address user,
+        address projectAddress,
+        KYCRequirement storage requirement
+    ) internal view returns (EligibilitySkipReason reason) {
+        EncryptedKYCData storage data = userKYCData[user];
+        if (data.status != KYCStatus.Approved) {
+            return EligibilitySkipReason.UserNotVerified;
+        }
+        // Users generating their own proof consent implicitly; projects need an explicit, unexpired grant
+        if (msg.sender != user && !hasConsent(user, projectAddress)) {
+            return EligibilitySkipReason.ConsentRequired;
+        }
+        // Invalidated approvals are evaluated as ineligible rather than rejected as stale or unscreened
+        if (_isInvalidatedByVerifier(data)) {
+            return EligibilitySkipReason.None;
+        }
+        if (_isVerificationStale(data, requirement)) {
+            return EligibilitySkipReason.VerificationExpired;
+        }
+        // Bounds the encrypted comparisons of a single check; screenKYC works off larger backlogs first
+        if (blocklist.length - data.screenedEntries > SCREENING_BATCH_SIZE) {
+            return EligibilitySkipReason.ScreeningIncomplete;
+        }
+        return EligibilitySkipReason.None;
+    }
+
+    /// @notice Evaluate a project's stored policy for an approved user
+    /// @dev Approvals issued by a verifier whose approvals were invalidated are invalidated here and yield ineligible
+    /// @param user Address of the user
+    /// @param requirement Stored policy of the project
+    /// @return eligible Encrypted eligibility result
+    function _evaluateApprovedUser(address user, KYCRequirement storage requirement) internal returns (ebool eligible) {
+        if (_applyVerifierInvalidation(user)) {
+            return FHE.asEbool(false);
+        }
+        // Tiers are public, so a tier below the policy minimum needs no encrypted evaluation
+        if (userKYCData[user].tier < requirement.minTier) {
+            return FHE.asEbool(false);
+        }
+        // Catch blocklist entries added since the user was last screened, at most SCREENING_BATCH_SIZE of them
+        _screenAgainstBlocklist(userKYCData[user], blocklist.length);
+        return
+            KYCEligibility.evaluate(
+                userKYCData[user],
+                requirement,
+                getAgeCutoffDate(requirement.minAge),
+                getAgeCutoffDate(0)
+            );
+    }
+
+    /// @notice Compare a user's document number against the blocklist entries they were not yet screened against
+    /// @param data Encrypted KYC record of the user
+    /// @param end Index one past the last blocklist entry to screen
+    function _screenAgainstBlocklist(EncryptedKYCData storage data, uint256 end) internal {
+        uint256 start = data.screenedEntries;
+        eaddress[] memory entries = new eaddress[](end > start ? end - start : 0);
+        for (uint256 i = 0; i < entries.length; ++i) {
+            entries[i] = blocklist[start + i];
+        }
+        KYCEligibility.screen(data, entries);
+    }
+
+    /// @notice Revert unless the caller may review a record that has an assigned verifier
+    /// @param data KYC record of the user
+    function _requireAssignedVerifier(EncryptedKYCData storage data) internal view {
+        if (_isAssignedToOtherVerifier(data)) {
+            revert UnauthorizedVerifier();
+        }
+    }
+
+    /// @notice Check whether a record is reserved for a verifier other than the caller
+    /// @dev Assignments only reserve a record while a single approval suffices
+    /// @param data KYC record of the user
+    /// @return assignedElsewhere Whether another verifier holds the assignment
+    function _isAssignedToOtherVerifier(EncryptedKYCData storage data) internal view returns (bool assignedElsewhere) {
+        return verificationQuorum == 1 && data.assignedVerifier != address(0) && data.assignedVerifier != msg.sender;
+    }
+
+    /// @notice Compute when a user's approval expires under the global validity period
+    /// @param data KYC record of the user
+    /// @return expiresAt Expiry timestamp of the approval
+    function _verificationExpiry(EncryptedKYCData storage data) internal view returns (uint256 expiresAt) {
+        return data.verificationTimestamp + defaultVerificationValidity;
+    }
+
+    /// @notice Check whether a user's approval is too old for the global default or the project maximum
+    /// @param data KYC record of the user
+    /// @param requirement Stored policy of the project
+    /// @return stale Whether the approval must not be accepted
+    function _isVerificationStale(
+        EncryptedKYCData storage data,
+        KYCRequirement storage requirement
+    ) internal view returns (bool stale) {
+        if (block.timestamp > _verificationExpiry(data)) {
+            return true;
+        }
+
+        uint256 maxAge = requirement.maxVerificationAge;
+        return maxAge != 0 && block.timestamp > data.verificationTimestamp + maxAge;
+    }
+
+    /// @notice Check whether a user's approval was issued by a verifier before its approvals were invalidated
+    /// @param data KYC record of the user
+    /// @return invalidated Whether the approval is no longer trusted
+    function _isInvalidatedByVerifier(EncryptedKYCData storage data) internal view returns (bool invalidated) {
+        return _invalidatingVerifier(data) != address(0);
+    }
+
+    /// @notice Find an approver of a user's approval whose approvals were invalidated after it was issued
+    /// @dev Checks the verifier that completed the approval and every verifier that counted towards its quorum
+    /// @param data KYC record of the user
+    /// @return verifier Invalidated approver, zero if the approval is still trusted or the user is not approved
+    function _invalidatingVerifier(EncryptedKYCData storage data) internal view returns (address verifier) {
+        if (data.status != KYCStatus.Approved) {
+            return address(0);
+        }
+        if (_isInvalidatedSince(data.verifiedBy, data.verificationTimestamp)) {
+            return data.verifiedBy;
+        }
+        for (uint256 i = 0; i < data.approvedBy.length; ++i) {
+            if (_isInvalidatedSince(data.approvedBy[i], data.verificationTimestamp)) {
+                return data.approvedBy[i];
+            }
+        }
+        return address(0);
+    }
+
+    /// @notice Drop investor attributes and risk scores attested by a verifier whose approvals were invalidated since
+    /// @dev Without attributes the user is neither accredited nor in any income band, and without a score every risk
+    /// limit rejects them, until a verifier sets them again
+    /// @param data KYC record of the user
+    function _dropInvalidatedAttestations(EncryptedKYCData storage data) internal {
+        Attestation storage attributes = data.attributesAttestation;
+        if (_isInvalidatedSince(attributes.verifier, attributes.timestamp)) {
+            data.accredited = ebool.wrap(0);
+            data.incomeBand = euint8.wrap(0);
+            delete data.attributesAttestation;
+        }
+        Attestation storage riskScore = data.riskScoreAttestation;
+        if (_isInvalidatedSince(riskScore.verifier, riskScore.timestamp)) {
+            data.riskScore = euint8.wrap(0);
+            delete data.riskScoreAttestation;
+        }
+    }
+
+    /// @notice Revert unless a user holds an approval that has neither expired nor been invalidated
+    /// @param data KYC record of the user
+    function _requireCurrentApproval(EncryptedKYCData storage data) internal view {
+        if (data.status != KYCStatus.Approved || _isInvalidatedByVerifier(data)) {
+            revert UserNotVerified();
+        }
+        if (block.timestamp > _verificationExpiry(data)) {
+            revert VerificationExpired();
+        }
+    }
+
+    /// @notice Check whether a verifier's approvals were invalidated at or after a point in time
+    /// @param verifier Address of the verifier
+    /// @param timestamp Time the approval was issued
+    /// @return invalidated Whether approvals the verifier issued at that time are no longer trusted
+    function _isInvalidatedSince(address verifier, uint256 timestamp) internal view returns (bool invalidated) {
+        VerifierInvalidation storage invalidation = verifierInvalidations[verifier];
+        return invalidation.mode != InvalidationMode.None && timestamp <= invalidation.invalidatedAt;
+    }
+
+    /// @notice Move an untrusted approval to revoked or back to pending review
+    /// @dev Also drops attestations of verifiers whose approvals were invalidated, even if the approval itself holds
+    /// @param user Address of the user
+    /// @return invalidated Whether the user's approval was invalidated
+    function _applyVerifierInvalidation(address user) internal returns (bool invalidated) {
+        EncryptedKYCData storage data = userKYCData[user];
+        _dropInvalidatedAttestations(data);
+        address verifier = _invalidatingVerifier(data);
+        if (verifier == address(0)) {
+            return false;
+        }
+
+        InvalidationMode mode = verifierInvalidations[verifier].mode;
+        data.status = mode == InvalidationMode.Revoke ? KYCStatus.Revoked : KYCStatus.Pending;
+        // The assignment may still name the deauthorized verifier, which would lock other reviewers out
+        data.assignedVerifier = address(0);
+        _clearEligibilityResults(user);
+        _clearProofs(user);
+
+        emit VerificationInvalidated(user, verifier, mode);
+        return true;
+    }
+
+    /// @notice Check whether a role can be granted and revoked through grantRole and revokeRole
+    /// @param role Role identifier
+    /// @return grantable Whether the role is the verifier, project manager or auditor role
+    function _isGrantableRole(bytes32 role) internal pure returns (bool grantable) {
+        return role == VERIFIER_ROLE || role == PROJECT_MANAGER_ROLE || role == AUDITOR_ROLE;
+    }
+
+    /// @notice Grant a role unless the account already holds it
+    /// @param role Role identifier
+    /// @param account Address receiving the role
+    function _grantRole(bytes32 role, address account) internal {
+        if (!roleMembers[role][account]) {
+            roleMembers[role][account] = true;
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Revoke a role if the account holds it
+    /// @param role Role identifier
+    /// @param account Address losing the role
+    function _revokeRole(bytes32 role, address account) internal {
+        if (roleMembers[role][account]) {
+            roleMembers[role][account] = false;
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @notice Revert if a pausable function is halted
+    /// @dev Kept out of the whenNotPaused modifier so the check is not inlined into every paused function
+    /// @param selector Selector of the pausable function
+    function _requireNotPaused(bytes4 selector) internal view {
+        if (isPaused(selector)) {
+            revert ContractPaused();
+        }
+    }
+
+    /// @notice Record a pause state change, rejecting unknown selectors and changes that would have no effect
+    /// @param selector Selector of a pausable function, or zero for the global pause
+    /// @param halted New pause state
+    function _setPaused(bytes4 selector, bool halted) internal {
+        if (selector == bytes4(0)) {
+            if (paused == halted) {
+                revert InvalidInput();
+            }
+            paused = halted;
+            return;
+        }
+        if (!_isPausableFunction(selector) || pausedFunctions[selector] == halted) {
+            revert InvalidInput();
+        }
+        pausedFunctions[selector] = halted;
+    }
+
+    /// @notice Check whether a selector names a function that can be paused on its own
+    /// @param selector Function selector
+    /// @return pausable Whether the selector is that of one of the functions listed on pause
+    function _isPausableFunction(bytes4 selector) internal pure returns (bool pausable) {
+        return
+            selector == this.submitKYC.selector ||
+            selector == this.assignVerifier.selector ||
+            selector == this.verifyKYC.selector ||
+            selector == this.addBlocklistEntries.selector ||
+            selector == this.screenKYC.selector ||
+            selector == this.approveMigration.selector ||
+            selector == this.checkEligibility.selector ||
+            selector == this.generateProof.selector;
     }
 }
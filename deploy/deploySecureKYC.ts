@@ -7,10 +7,20 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   console.log("Deploying SecureKYC contract with deployer:", deployer);
 
+  // Policy evaluation and record moves live in linked libraries to keep SecureKYC under the contract size limit
+  const kycEligibility = await deploy("KYCEligibility", { from: deployer, log: true });
+  const kycRecords = await deploy("KYCRecords", { from: deployer, log: true });
+
+  // The proxy keeps one address, and the encrypted records it holds, across upgrades; the proxy constructor calls
+  // initialize() atomically and the deployer owns the proxy
   const secureKYC = await deploy("SecureKYC", {
     from: deployer,
-    args: [],
     log: true,
+    libraries: { KYCEligibility: kycEligibility.address, KYCRecords: kycRecords.address },
+    proxy: {
+      proxyContract: "EIP173Proxy",
+      execute: { init: { methodName: "initialize", args: [] } },
+    },
   });
 
   console.log("SecureKYC contract deployed at:", secureKYC.address);
@@ -18,15 +28,19 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   // Log important information for users
   console.log("\n=== SecureKYC Deployment Complete ===");
   console.log("Contract Address:", secureKYC.address);
-  console.log("Admin (initial authorized verifier):", deployer);
+  console.log("Admin (initial verifier and project manager) and proxy owner:", deployer);
   console.log("\nNext steps:");
-  console.log("1. Authorize additional KYC verifiers using setAuthorizedVerifier()");
+  console.log("1. Grant verifier, project manager and auditor roles using grantRole()");
   console.log("2. Users can submit KYC data using submitKYC()");
   console.log("3. Verifiers can approve KYC data using verifyKYC()");
   console.log("4. Set project requirements using setProjectRequirements()");
   console.log("5. Users can check eligibility and generate proofs");
+  console.log("\nDeploy contract changes with: npx hardhat deploy --tags upgrade-securekyc");
 };
 
+// Upgrades go through upgrade-securekyc, which checks the storage layout first
+func.skip = async (hre: HardhatRuntimeEnvironment) => !!(await hre.deployments.getOrNull("SecureKYC"));
+
 func.tags = ["SecureKYC"];
 func.id = "deploy_secure_kyc";
 
@@ -0,0 +1,124 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  base?: string;
+  value?: string;
+  members?: StorageEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+}
+
+// Type ids embed AST ids that change between compilations, so layouts are compared by position and type label
+export function storageLayoutConflicts(previous: StorageLayout, next: StorageLayout): string[] {
+  const conflicts: string[] = [];
+  const previousTypes = previous.types ?? {};
+  const nextTypes = next.types ?? {};
+
+  const compareType = (previousId: string, nextId: string, path: string) => {
+    const previousType = previousTypes[previousId];
+    const nextType = nextTypes[nextId];
+    if (previousType.label !== nextType.label) {
+      conflicts.push(`${path}: ${previousType.label} became ${nextType.label}`);
+      return;
+    }
+    if (previousType.value && nextType.value) {
+      compareType(previousType.value, nextType.value, `${path}[]`);
+    }
+    if (previousType.base && nextType.base) {
+      // Array elements are packed back to back, so their size must not change
+      if (previousTypes[previousType.base].numberOfBytes !== nextTypes[nextType.base].numberOfBytes) {
+        conflicts.push(`${path}: array elements changed size`);
+        return;
+      }
+      compareType(previousType.base, nextType.base, `${path}[]`);
+    }
+    if (previousType.members) {
+      compareEntries(previousType.members, nextType.members ?? [], `${path}.`);
+    }
+  };
+
+  // Existing variables (and struct members) must keep their slot, offset and type; new ones may only be appended
+  const compareEntries = (previousEntries: StorageEntry[], nextEntries: StorageEntry[], scope: string) => {
+    previousEntries.forEach((entry, index) => {
+      const path = `${scope}${entry.label}`;
+      const candidate = nextEntries[index];
+      if (!candidate) {
+        conflicts.push(`${path} was removed`);
+      } else if (
+        candidate.label !== entry.label ||
+        candidate.slot !== entry.slot ||
+        candidate.offset !== entry.offset
+      ) {
+        conflicts.push(
+          `${path} at slot ${entry.slot}+${entry.offset} became ${candidate.label} at ${candidate.slot}+${candidate.offset}`,
+        );
+      } else {
+        compareType(entry.type, candidate.type, path);
+      }
+    });
+  };
+
+  compareEntries(previous.storage, next.storage, "");
+  return conflicts;
+}
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, getExtendedArtifact, getOrNull } = hre.deployments;
+
+  // Layouts are recorded in deployment files, which in-memory local runs do not write; live networks always have them
+  const implementation = await getOrNull("SecureKYC_Implementation");
+  if (implementation?.storageLayout) {
+    const { storageLayout } = await getExtendedArtifact("SecureKYC");
+    const conflicts = storageLayoutConflicts(implementation.storageLayout, storageLayout);
+    if (conflicts.length > 0) {
+      throw new Error(`SecureKYC upgrade would corrupt proxy storage:\n  ${conflicts.join("\n  ")}`);
+    }
+  } else if (hre.network.live) {
+    throw new Error("No storage layout recorded for the deployed SecureKYC implementation");
+  }
+
+  console.log("Upgrading SecureKYC with deployer:", deployer);
+
+  // The libraries are redeployed only when their bytecode changed
+  const kycEligibility = await deploy("KYCEligibility", { from: deployer, log: true });
+  const kycRecords = await deploy("KYCRecords", { from: deployer, log: true });
+
+  // Reuses the proxy deployed by deploySecureKYC.ts and only replaces its implementation if the bytecode changed
+  const secureKYC = await deploy("SecureKYC", {
+    from: deployer,
+    log: true,
+    libraries: { KYCEligibility: kycEligibility.address, KYCRecords: kycRecords.address },
+    proxy: {
+      proxyContract: "EIP173Proxy",
+      execute: { init: { methodName: "initialize", args: [] } },
+    },
+  });
+
+  if (secureKYC.newlyDeployed) {
+    console.log("SecureKYC upgraded, implementation:", secureKYC.implementation);
+  } else {
+    console.log("SecureKYC implementation unchanged");
+  }
+  console.log("Proxy address (unchanged):", secureKYC.address);
+};
+
+func.tags = ["upgrade-securekyc"];
+func.dependencies = ["SecureKYC"];
+func.id = "upgrade_secure_kyc";
+
+export default func;
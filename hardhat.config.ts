@@ -76,9 +76,16 @@ const config: HardhatUserConfig = {
           // https://hardhat.org/hardhat-network/#solidity-optimizer-support
           optimizer: {
             enabled: true,
-            runs: 800,
+            // Optimize for code size: SecureKYC is close to the 24 KB contract size limit
+            runs: 1,
           },
+          // SecureKYC exceeds the 24 KB contract size limit without the IR pipeline
+          viaIR: true,
           evmVersion: "cancun",
+          // Saved with each deployment so upgrade-securekyc can compare storage layouts
+          outputSelection: {
+            "*": { "*": ["storageLayout"] },
+          },
         },
       },
       {
@@ -89,9 +96,13 @@ const config: HardhatUserConfig = {
           },
           optimizer: {
             enabled: true,
-            runs: 800,
+            runs: 1,
           },
+          viaIR: true,
           evmVersion: "cancun",
+          outputSelection: {
+            "*": { "*": ["storageLayout"] },
+          },
         },
       },
     ],
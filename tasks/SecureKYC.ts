@@ -1,16 +1,1450 @@
-import { task } from "hardhat/config";
-import type { TaskArguments } from "hardhat/types";
+import { task, vars } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { ZeroAddress, ZeroHash, computeHmac, id, isAddress, solidityPacked, toUtf8Bytes } from "ethers";
+import * as fs from "fs";
+import type { SecureKYC } from "../types";
+
+const KYC_STATUS_LABELS = ["NONE", "PENDING", "APPROVED", "REJECTED", "REVOKED"];
+
+const INVALIDATION_MODES: Record<string, number> = { none: 0, revoke: 1, review: 2 };
+
+// Role identifiers of SecureKYC, keyed by the names the role tasks accept
+const ROLES: Record<string, string> = {
+  admin: id("ADMIN_ROLE"),
+  verifier: id("VERIFIER_ROLE"),
+  "project-manager": id("PROJECT_MANAGER_ROLE"),
+  auditor: id("AUDITOR_ROLE"),
+};
+
+const parseRole = (name: string): string => {
+  const role = ROLES[name.toLowerCase()];
+  if (role === undefined) {
+    throw new Error(`Unknown role: ${name} (expected ${Object.keys(ROLES).join(", ")})`);
+  }
+  return role;
+};
+
+// Indexed by SecureKYC.VerificationSkipReason
+const VERIFICATION_SKIP_REASONS = [
+  "none",
+  "assigned to another verifier",
+  "not awaiting verification",
+  "invalid fingerprint",
+  "duplicate document",
+  "already approved",
+  "fingerprint mismatch",
+  "risk score assigned",
+];
+
+// Indexed by SecureKYC.KYCTier
+const KYC_TIERS = ["none", "basic", "enhanced", "full"];
+
+const parseTier = (name: string): number => {
+  const tier = KYC_TIERS.indexOf(name.toLowerCase());
+  if (tier === -1) {
+    throw new Error(`Unknown tier: ${name} (expected ${KYC_TIERS.join(", ")})`);
+  }
+  return tier;
+};
+
+// Income or net-worth bands in USD, indexed by band code up to SecureKYC.MAX_INCOME_BAND (see app/src/config/fhe.ts)
+const INCOME_BANDS = ["not assessed", "under $50k", "$50k-$200k", "$200k-$1M", "$1M-$5M", "over $5M"];
+
+const parseIncomeBand = (value: string): number => {
+  const band = Number(value);
+  if (!Number.isInteger(band) || band < 0 || band >= INCOME_BANDS.length) {
+    throw new Error(`Invalid income band: ${value} (expected 0-${INCOME_BANDS.length - 1})`);
+  }
+  return band;
+};
+
+// Highest AML risk score, see SecureKYC.MAX_RISK_SCORE
+const MAX_RISK_SCORE = 100;
+
+const parseRiskScore = (value: string): number => {
+  const score = Number(value);
+  if (!Number.isInteger(score) || score < 0 || score > MAX_RISK_SCORE) {
+    throw new Error(`Invalid risk score: ${value} (expected 0-${MAX_RISK_SCORE})`);
+  }
+  return score;
+};
+
+// Indexed by SecureKYC.EligibilitySkipReason
+const ELIGIBILITY_SKIP_REASONS = [
+  "none",
+  "user not verified",
+  "consent required",
+  "verification expired",
+  "blocklist screening incomplete",
+];
+
+// Functions SecureKYC can pause on their own; batch variants follow the function they extend
+const PAUSABLE_FUNCTIONS = [
+  "submitKYC",
+  "assignVerifier",
+  "verifyKYC",
+  "addBlocklistEntries",
+  "screenKYC",
+  "approveMigration",
+  "checkEligibility",
+  "generateProof",
+] as const;
+
+// Selector passed to pause/unpause: a pausable function, or zero for the whole contract
+const pauseSelector = (contract: SecureKYC, name: string | undefined): string => {
+  if (!name) {
+    return "0x00000000";
+  }
+  const pausable = PAUSABLE_FUNCTIONS.find((candidate) => candidate === name);
+  if (pausable === undefined) {
+    throw new Error(`Unknown pausable function: ${name} (expected ${PAUSABLE_FUNCTIONS.join(", ")})`);
+  }
+  return contract.interface.getFunction(pausable).selector;
+};
+
+// Reason codes understood by the frontend (see app/src/config/fhe.ts)
+const REJECTION_REASONS: Record<number, string> = {
+  1: "Document unreadable",
+  2: "Document expired",
+  3: "Data mismatch",
+  4: "Unsupported country",
+  5: "Suspected fraud",
+};
+
+// Document type codes stored on-chain (see MAX_DOCUMENT_TYPE in SecureKYC.sol and app/src/config/fhe.ts)
+const DOCUMENT_TYPES: Record<string, number> = {
+  passport: 1,
+  "national-id": 2,
+  "residence-permit": 3,
+  "drivers-licence": 4,
+};
+
+// Per-type normalization of document numbers, mirroring app/src/utils/passportUtils.ts
+const DOCUMENT_NUMBER_FORMATS: Record<number, { strip: RegExp; pattern: RegExp }> = {
+  1: { strip: /\s/g, pattern: /^[A-Z0-9]{5,20}$/ },
+  2: { strip: /[\s.-]/g, pattern: /^[A-Z0-9]{4,20}$/ },
+  3: { strip: /[\s-]/g, pattern: /^[A-Z0-9]{4,20}$/ },
+  4: { strip: /\s/g, pattern: /^[A-Z0-9][A-Z0-9-]{3,19}$/ },
+};
+
+// Resolve a document type name (e.g. "national-id") to its on-chain code
+const parseDocumentType = (name: string): number => {
+  const documentType = DOCUMENT_TYPES[name.trim().toLowerCase()];
+  if (!documentType) {
+    throw new Error(`Unknown document type "${name}" (expected one of ${Object.keys(DOCUMENT_TYPES).join(", ")})`);
+  }
+  return documentType;
+};
+
+// Name of a document type code, for display
+const documentTypeName = (documentType: number): string => {
+  return Object.keys(DOCUMENT_TYPES).find((name) => DOCUMENT_TYPES[name] === documentType) ?? `unknown (${documentType})`;
+};
+
+// Normalize a document number according to the rules of its document type
+const normalizeDocumentNumber = (documentType: number, documentNumber: string): string => {
+  const format = DOCUMENT_NUMBER_FORMATS[documentType];
+  const normalized = documentNumber.replace(format.strip, "").toUpperCase();
+  if (!format.pattern.test(normalized)) {
+    throw new Error(`Invalid ${documentTypeName(documentType)} number "${documentNumber}"`);
+  }
+  return normalized;
+};
+
+// Build the accepted-document bitmask stored on-chain (bit n accepts document type n, 0 accepts any)
+const toDocumentTypeMask = (names: string[]): number => {
+  return names.reduce((mask, name) => mask | (1 << parseDocumentType(name)), 0);
+};
+
+// List the document types accepted by a document bitmask
+const fromDocumentTypeMask = (mask: bigint | number): string[] => {
+  if (Number(mask) === 0) {
+    return ["any"];
+  }
+  return Object.keys(DOCUMENT_TYPES).filter((name) => (Number(mask) >> DOCUMENT_TYPES[name]) & 1);
+};
+
+// Keyed fingerprint of a document for the duplicate-document index, mirroring app/src/utils/passportUtils.ts.
+// Verifiers share the key (hardhat var DOCUMENT_INDEX_KEY); without it fingerprints cannot be brute-forced
+const documentFingerprint = (indexKey: string, documentType: number, documentAddress: string): string => {
+  const document = solidityPacked(["uint8", "address"], [documentType, documentAddress]);
+  return computeHmac("sha256", toUtf8Bytes(indexKey), document);
+};
+
+// Resolve the document behind a submission and its fingerprint: from the document the verifier checked off-chain,
+// or by decrypting the submission, which only works once it is assigned to the verifier
+const resolveDocumentFingerprint = async (
+  fhevm: HardhatRuntimeEnvironment["fhevm"],
+  contract: SecureKYC,
+  verifier: HardhatEthersSigner,
+  user: string,
+  indexKey: string,
+  document?: { doctype?: string; number: string },
+): Promise<{ documentType: number; fingerprint: string }> => {
+  let documentType: number;
+  let documentAddress: string;
+  if (document) {
+    documentType = parseDocumentType(document.doctype || "passport");
+    documentAddress = passportToAddress(normalizeDocumentNumber(documentType, document.number));
+  } else {
+    const contractAddress = await contract.getAddress();
+    const [encryptedDocumentNumber, , , encryptedDocumentType] = await contract.getUserKYCData(user);
+    documentType = Number(
+      await fhevm.userDecryptEuint(FhevmType.euint8, encryptedDocumentType, contractAddress, verifier),
+    );
+    documentAddress = await fhevm.userDecryptEaddress(encryptedDocumentNumber, contractAddress, verifier);
+  }
+  return { documentType, fingerprint: documentFingerprint(indexKey, documentType, documentAddress) };
+};
+
+interface BatchEntry {
+  address: string;
+  doctype?: string;
+  document?: string;
+}
+
+// Read verify-kyc-batch and check-eligibility-batch entries from a JSON array (addresses or BatchEntry objects) or
+// a CSV file with address[,document_type,document_number] per line
+const readBatchEntries = (file: string): BatchEntry[] => {
+  const content = fs.readFileSync(file, "utf8");
+  if (file.toLowerCase().endsWith(".json")) {
+    const entries = JSON.parse(content) as (string | BatchEntry)[];
+    return entries.map((entry) => (typeof entry === "string" ? { address: entry } : entry));
+  }
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.split(",").map((cell) => cell.trim()))
+    .filter(([address]) => address && !address.startsWith("#") && !/^address$/i.test(address))
+    .map(([address, doctype, document]) => ({ address, doctype, document }));
+};
+
+// The contract accepts at most SCREENING_BATCH_SIZE blocklist entries per transaction
+const MAX_BLOCKLIST_BATCH = 10;
+
+// A user decryption request holds at most 2048 encrypted bits and an ebool counts as 2
+const MAX_DECRYPT_HANDLES = 1024;
+
+// Pack a YYYY-MM-DD date (date of birth, document expiry) as the YYYYMMDD integer the contract compares against
+const packDate = (value: string, label: string): bigint => {
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`Invalid ${label} "${value}" (expected YYYY-MM-DD)`);
+  }
+  return BigInt(year * 10000 + month * 100 + day);
+};
+
+// Build the allowed-country bitmask stored on-chain (bit n allows country code n)
+const toCountryMask = (countryCodes: number[]): bigint => {
+  return countryCodes.reduce((mask, code) => {
+    if (!Number.isInteger(code) || code < 1 || code > 255) {
+      throw new Error(`Invalid country code "${code}" (expected 1-255)`);
+    }
+    return mask | (1n << BigInt(code));
+  }, 0n);
+};
+
+// List the country codes allowed by a country bitmask
+const fromCountryMask = (mask: bigint): number[] => {
+  const countryCodes: number[] = [];
+  for (let code = 1; code <= 255; code++) {
+    if ((mask >> BigInt(code)) & 1n) {
+      countryCodes.push(code);
+    }
+  }
+  return countryCodes;
+};
+
+// Format a packed YYYYMMDD date of birth as YYYY-MM-DD
+const formatPackedDate = (packed: bigint): string => {
+  const digits = packed.toString().padStart(8, "0");
+  return `${digits.slice(0, 4)}-${digits.slice(4, 6)}-${digits.slice(6, 8)}`;
+};
+
+task("submit-kyc", "Submit KYC data for verification")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addOptionalParam("doctype", `Document type (${Object.keys(DOCUMENT_TYPES).join(", ")})`, "passport")
+  .addParam("document", "Document number (will be converted to address)")
+  .addParam("expiry", "Document expiry date as YYYY-MM-DD (e.g., 2030-06-30)")
+  .addParam("dob", "Date of birth as YYYY-MM-DD (e.g., 1990-04-15)")
+  .addParam("country", "Country code (1-255)")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { doctype, document, expiry, dob, country } = taskArguments;
+    const documentType = parseDocumentType(doctype);
+    const documentExpiry = packDate(expiry, "document expiry date");
+    const dateOfBirth = packDate(dob, "date of birth");
+    await fhevm.initializeCLIApi()
+    const [signer] = await ethers.getSigners();
+    console.log("Submitting KYC data with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    // Convert the normalized document number to address format (reversible method)
+    const documentNumber = normalizeDocumentNumber(documentType, document);
+    const documentAddress = passportToAddress(documentNumber);
+
+    console.log("Document type:", documentTypeName(documentType));
+    console.log("Document number:", documentNumber);
+    console.log("Document number converted to address:", documentAddress);
+    console.log("Document expires on:", formatPackedDate(documentExpiry));
+
+    // Test reverse conversion for verification
+    const reversedDocumentNumber = addressToPassport(documentAddress);
+    console.log("Reverse conversion test:", reversedDocumentNumber);
+
+    if (reversedDocumentNumber !== documentNumber) {
+      throw new Error("Document number conversion failed verification");
+    }
+
+    // Create encrypted input
+    const input = fhevm.createEncryptedInput(secureKYCDeployment.address, signer.address);
+    input.add8(documentType);           // document type
+    input.addAddress(documentAddress);  // document number as address
+    input.add32(documentExpiry);        // document expiry (YYYYMMDD)
+    input.add32(dateOfBirth);           // date of birth (YYYYMMDD)
+    input.add8(BigInt(country));        // country code
+
+    const encryptedInput = await input.encrypt();
+
+    const transaction = await contract.submitKYC(
+      encryptedInput.handles[0], // document type
+      encryptedInput.handles[1], // document number address
+      encryptedInput.handles[2], // document expiry
+      encryptedInput.handles[3], // date of birth
+      encryptedInput.handles[4], // country code
+      encryptedInput.inputProof
+    );
+
+    await transaction.wait();
+    console.log("KYC data submitted successfully!");
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("verify-kyc", "Verify a user's KYC data (authorized verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "The user's address to verify")
+  .addOptionalParam("doctype", "Type of the document given with --document", "passport")
+  .addOptionalParam("document", "Document number as checked off-chain (decrypted from an assigned submission if omitted)")
+  .addOptionalParam("tier", "Assurance tier of the checks performed (basic, enhanced or full)", "enhanced")
+  .addParam("risk", `AML risk score from 0 (lowest) to ${MAX_RISK_SCORE}, encrypted before submission`)
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { userindex, doctype, document, verifierindex } = taskArguments;
+    const tier = parseTier(taskArguments.tier);
+    const riskScore = parseRiskScore(taskArguments.risk);
+    const indexKey = vars.get("DOCUMENT_INDEX_KEY");
+
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex]
+    const verifier = signers[verifierindex];
+    console.log("Verifying KYC with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    await fhevm.initializeCLIApi();
+    const { documentType, fingerprint } = await resolveDocumentFingerprint(
+      fhevm,
+      contract,
+      verifier,
+      signer.address,
+      indexKey,
+      document ? { doctype, number: document } : undefined,
+    );
+    if (await contract.isDuplicateDocument(fingerprint, signer.address)) {
+      console.error(`This ${documentTypeName(documentType)} is already held by another verified wallet`);
+      return;
+    }
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(secureKYCDeployment.address, verifier.address)
+      .add8(riskScore)
+      .encrypt();
+    const transaction = await contract
+      .connect(verifier)
+      .verifyKYC(signer.address, fingerprint, tier, encryptedInput.handles[0], encryptedInput.inputProof);
+    await transaction.wait();
+
+    const [verified, , , , approvals, quorum, assignedTier] = await contract.getVerificationStatus(signer.address);
+    if (verified) {
+      console.log(`KYC verified for user: ${signer.address} (tier: ${KYC_TIERS[Number(assignedTier)]})`);
+    } else {
+      console.log(`Approval recorded for user: ${signer.address} (${approvals}/${quorum} approvals)`);
+    }
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("verify-kyc-batch", "Verify users listed in a CSV or JSON file in gas-bounded batches (authorized verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("file", "CSV (address[,document_type,document_number] per line) or JSON array of addresses or entries")
+  .addOptionalParam("gaslimit", "Maximum gas per transaction", "15000000")
+  .addOptionalParam("chunksize", "Maximum number of users per transaction", "50")
+  .addOptionalParam("report", "Path of the JSON results report", "verify-kyc-batch-report.json")
+  .addOptionalParam("tier", "Assurance tier granted to every user of the file (basic, enhanced or full)", "enhanced")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { file, report, verifierindex } = taskArguments;
+    const tier = parseTier(taskArguments.tier);
+    const gasLimit = BigInt(taskArguments.gaslimit);
+    const chunkSize = parseInt(taskArguments.chunksize);
+    const indexKey = vars.get("DOCUMENT_INDEX_KEY");
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const verifier = signers[verifierindex];
+    console.log("Batch verifying KYC with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = (await ethers.getContractAt("SecureKYC", secureKYCDeployment.address)).connect(verifier);
+
+    // Users whose fingerprint cannot be resolved are reported as failed and never sent
+    const results: { user: string; status: string; reason?: string; transaction?: string }[] = [];
+    const batch: { user: string; fingerprint: string }[] = [];
+    for (const entry of readBatchEntries(file)) {
+      try {
+        if (!isAddress(entry.address)) {
+          throw new Error("invalid address");
+        }
+        const document = entry.document ? { doctype: entry.doctype, number: entry.document } : undefined;
+        const { fingerprint } = await resolveDocumentFingerprint(
+          fhevm,
+          contract,
+          verifier,
+          entry.address,
+          indexKey,
+          document,
+        );
+        batch.push({ user: entry.address, fingerprint });
+      } catch (error) {
+        results.push({ user: entry.address, status: "failed", reason: (error as Error).message });
+      }
+    }
+    console.log(`Prepared ${batch.length} users (${results.length} failed)`);
+
+    for (let start = 0; start < batch.length; ) {
+      // Halve the chunk until its gas estimate fits under the limit
+      let chunk = batch.slice(start, start + chunkSize);
+      let estimate = await contract.verifyKYCBatch.estimateGas(
+        chunk.map((item) => item.user),
+        chunk.map((item) => item.fingerprint),
+        tier,
+      );
+      while (estimate > gasLimit && chunk.length > 1) {
+        chunk = chunk.slice(0, Math.ceil(chunk.length / 2));
+        estimate = await contract.verifyKYCBatch.estimateGas(
+          chunk.map((item) => item.user),
+          chunk.map((item) => item.fingerprint),
+          tier,
+        );
+      }
+      start += chunk.length;
+
+      if (estimate > gasLimit) {
+        results.push({ user: chunk[0].user, status: "failed", reason: `needs ${estimate} gas` });
+        continue;
+      }
+
+      const transaction = await contract.verifyKYCBatch(
+        chunk.map((item) => item.user),
+        chunk.map((item) => item.fingerprint),
+        tier,
+      );
+      const receipt = await transaction.wait();
+      for (const log of receipt!.logs) {
+        const event = contract.interface.parseLog(log);
+        if (event?.name === "KYCVerified") {
+          results.push({ user: event.args.user, status: "verified", transaction: transaction.hash });
+        } else if (event?.name === "KYCApprovalRecorded" && event.args.approvals < event.args.quorum) {
+          // Below the quorum the approval is recorded but the user is not verified yet
+          const reason = `${event.args.approvals}/${event.args.quorum} approvals`;
+          results.push({ user: event.args.user, status: "approved", reason, transaction: transaction.hash });
+        } else if (event?.name === "KYCVerificationSkipped") {
+          const reason = VERIFICATION_SKIP_REASONS[Number(event.args.reason)];
+          results.push({ user: event.args.user, status: "skipped", reason, transaction: transaction.hash });
+        }
+      }
+      console.log(`Processed ${start}/${batch.length} users (tx: ${transaction.hash})`);
+    }
+
+    const summary = {
+      verified: results.filter((result) => result.status === "verified").length,
+      approved: results.filter((result) => result.status === "approved").length,
+      skipped: results.filter((result) => result.status === "skipped").length,
+      failed: results.filter((result) => result.status === "failed").length,
+    };
+    fs.writeFileSync(
+      report,
+      JSON.stringify({ contract: secureKYCDeployment.address, verifier: verifier.address, summary, results }, null, 2),
+    );
+
+    console.log(
+      `Verified: ${summary.verified}, below quorum: ${summary.approved}, skipped: ${summary.skipped}, failed: ${summary.failed}`,
+    );
+    console.log(`Report written to ${report}`);
+  });
+
+task("set-investor-attributes", "Attach encrypted investor attributes to a verified user (authorized verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the verified user in signers array")
+  .addParam("accredited", "Whether the user is an accredited investor (true/false)")
+  .addParam(
+    "incomeband",
+    `Income or net-worth band (${INCOME_BANDS.slice(1).map((label, index) => `${index + 1}=${label}`).join(", ")})`
+  )
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { userindex, verifierindex } = taskArguments;
+    const accredited = taskArguments.accredited.toLowerCase() === "true";
+    const incomeBand = parseIncomeBand(taskArguments.incomeband);
+    if (incomeBand === 0) {
+      throw new Error("Income band must be assessed (1 or higher)");
+    }
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const user = signers[userindex].address;
+    const verifier = signers[verifierindex];
+    console.log("Setting investor attributes with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(secureKYCDeployment.address, verifier.address)
+      .addBool(accredited)
+      .add8(incomeBand)
+      .encrypt();
+
+    const transaction = await contract
+      .connect(verifier)
+      .setInvestorAttributes(user, encryptedInput.handles[0], encryptedInput.handles[1], encryptedInput.inputProof);
+    await transaction.wait();
+
+    console.log(`Investor attributes set for user: ${user}`);
+    console.log("Accredited:", accredited);
+    console.log("Income band:", INCOME_BANDS[incomeBand]);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("update-risk-score", "Replace the encrypted AML risk score of a verified user (authorized verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the verified user in signers array")
+  .addParam("risk", `AML risk score from 0 (lowest) to ${MAX_RISK_SCORE}`)
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { userindex, verifierindex } = taskArguments;
+    const riskScore = parseRiskScore(taskArguments.risk);
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const user = signers[userindex].address;
+    const verifier = signers[verifierindex];
+    console.log("Updating risk score with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const encryptedInput = await fhevm
+      .createEncryptedInput(secureKYCDeployment.address, verifier.address)
+      .add8(riskScore)
+      .encrypt();
+
+    const transaction = await contract
+      .connect(verifier)
+      .updateRiskScore(user, encryptedInput.handles[0], encryptedInput.inputProof);
+    await transaction.wait();
+
+    // Read back the stored score, which the contract caps at MAX_RISK_SCORE
+    const storedScore = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      await contract.getRiskScore(user),
+      secureKYCDeployment.address,
+      verifier
+    );
+    console.log(`Risk score updated for user: ${user}`);
+    console.log("Risk score:", Number(storedScore));
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("reject-kyc", "Reject a user's pending KYC data with a reason code (authorized verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the user to reject in signers array")
+  .addParam("reason", `Reason code (${Object.entries(REJECTION_REASONS).map(([code, label]) => `${code}=${label}`).join(", ")})`)
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex, reason, verifierindex } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const user = signers[userindex].address
+    const verifier = signers[verifierindex];
+    console.log("Rejecting KYC with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const reasonCode = parseInt(reason);
+    const transaction = await contract.connect(verifier).rejectKYC(user, reasonCode);
+    await transaction.wait();
+
+    console.log(`KYC rejected for user: ${user}`);
+    console.log(`Reason: ${reasonCode} (${REJECTION_REASONS[reasonCode] ?? "Custom"})`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("assign-verifier", "Assign a verifier to your pending submission and grant it decryption access")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the user account in signers array")
+  .addParam("verifier", "Verifier address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex, verifier } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Assigning verifier with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.connect(signer).assignVerifier(verifier);
+    await transaction.wait();
+
+    console.log(`Verifier ${verifier} assigned to the submission of ${signer.address}`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("review-kyc", "Decrypt a submission assigned to you before verifying it (assigned verifier only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("user", "User address")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { user, verifierindex } = taskArguments;
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const verifier = signers[verifierindex];
+    console.log("Reviewing KYC with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const assignedVerifier = await contract.getAssignedVerifier(user);
+    if (assignedVerifier !== verifier.address) {
+      console.error(`The submission of ${user} is assigned to ${assignedVerifier}, not ${verifier.address}`);
+      return;
+    }
+
+    const [encryptedDocumentNumber, encryptedDateOfBirth, encryptedCountryCode, encryptedDocumentType, encryptedExpiry] =
+      await contract.getUserKYCData(user);
+
+    const documentType = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedDocumentType,
+      secureKYCDeployment.address,
+      verifier
+    );
+    const documentAddress = await fhevm.userDecryptEaddress(encryptedDocumentNumber, secureKYCDeployment.address, verifier);
+    const documentExpiry = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      encryptedExpiry,
+      secureKYCDeployment.address,
+      verifier
+    );
+    const dateOfBirth = await fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      encryptedDateOfBirth,
+      secureKYCDeployment.address,
+      verifier
+    );
+    const countryCode = await fhevm.userDecryptEuint(
+      FhevmType.euint8,
+      encryptedCountryCode,
+      secureKYCDeployment.address,
+      verifier
+    );
+
+    console.log(`\n=== Submission of ${user} ===`);
+    console.log("Document Type:", documentTypeName(Number(documentType)));
+    console.log("Document Number:", addressToPassport(documentAddress));
+    console.log("Document Expiry:", formatPackedDate(documentExpiry));
+    console.log("Date of Birth:", formatPackedDate(dateOfBirth));
+    console.log("Country Code:", Number(countryCode));
+  });
+
+task("load-blocklist", "Encrypt document numbers from a CSV file and add them to the blocklist (verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("file", "CSV file with one document number per line, optionally followed by a document type column")
+  .addOptionalParam("batchsize", `Entries encrypted per transaction (max ${MAX_BLOCKLIST_BATCH})`, "10")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { file, verifierindex } = taskArguments;
+    const batchSize = parseInt(taskArguments.batchsize);
+    if (!(batchSize >= 1 && batchSize <= MAX_BLOCKLIST_BATCH)) {
+      throw new Error(`Invalid batch size "${taskArguments.batchsize}" (expected 1-${MAX_BLOCKLIST_BATCH})`);
+    }
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const verifier = signers[verifierindex];
+    console.log("Loading blocklist with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    // Normalize every row the same way submit-kyc does, so equal documents encode to equal addresses
+    const rows = fs
+      .readFileSync(file, "utf8")
+      .split(/\r?\n/)
+      .map((line) => line.split(",").map((cell) => cell.trim()))
+      .filter(([documentNumber]) => documentNumber && !documentNumber.startsWith("#"))
+      .filter(([documentNumber]) => !/^document/i.test(documentNumber));
+    const entries = rows.map(([documentNumber, doctype]) =>
+      passportToAddress(normalizeDocumentNumber(parseDocumentType(doctype || "passport"), documentNumber)),
+    );
+    console.log(`Read ${entries.length} entries from ${file}`);
+
+    for (let start = 0; start < entries.length; start += batchSize) {
+      const batch = entries.slice(start, start + batchSize);
+      const input = fhevm.createEncryptedInput(secureKYCDeployment.address, verifier.address);
+      batch.forEach((entry) => input.addAddress(entry));
+      const encryptedInput = await input.encrypt();
+
+      const transaction = await contract
+        .connect(verifier)
+        .addBlocklistEntries(encryptedInput.handles, encryptedInput.inputProof);
+      await transaction.wait();
+      console.log(`Added entries ${start + 1}-${start + batch.length} (tx: ${transaction.hash})`);
+    }
+
+    console.log("Blocklist size:", Number(await contract.getBlocklistSize()));
+  });
+
+task("screen-kyc", "Screen a user against new blocklist entries and decrypt the result (verifiers only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("user", "User address")
+  .addOptionalParam("batchsize", "Maximum number of blocklist entries to compare per transaction", "20")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { user, batchsize, verifierindex } = taskArguments;
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const verifier = signers[verifierindex];
+    console.log("Screening with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = (await ethers.getContractAt("SecureKYC", secureKYCDeployment.address)).connect(verifier);
+
+    // Run at least once so the verifier is granted access to the current result
+    let remaining: bigint;
+    do {
+      remaining = await contract.screenKYC.staticCall(user, batchsize);
+      const transaction = await contract.screenKYC(user, batchsize);
+      await transaction.wait();
+      console.log(`Screening transaction: ${transaction.hash} (${remaining} entries remaining)`);
+    } while (remaining > 0n);
+
+    const [blocklisted, screenedEntries] = await contract.getBlocklistScreening(user);
+    const isBlocklisted = await fhevm.userDecryptEbool(blocklisted, secureKYCDeployment.address, verifier);
+
+    console.log(`User ${user} screened against ${screenedEntries} entries`);
+    console.log("Result:", isBlocklisted ? "BLOCKLISTED" : "NOT BLOCKLISTED");
+  });
+
+task(
+  "screen-all",
+  "Screen every user holding a record against new blocklist entries (from KYCSubmitted and KYCMigrated logs)",
+)
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addOptionalParam("fromblock", "Block to start scanning logs from", "0")
+  .addOptionalParam("batchsize", "Maximum number of blocklist entries to compare per transaction", "20")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { fromblock, batchsize, verifierindex } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const verifier = signers[verifierindex];
+    console.log("Screening with account:", verifier.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = (await ethers.getContractAt("SecureKYC", secureKYCDeployment.address)).connect(verifier);
+
+    // Records only come into being through a submission or a migration to a new wallet
+    const submissions = await contract.queryFilter(contract.filters.KYCSubmitted(), parseInt(fromblock));
+    const migrations = await contract.queryFilter(contract.filters.KYCMigrated(), parseInt(fromblock));
+    const users = [
+      ...new Set([...submissions.map((event) => event.args.user), ...migrations.map((event) => event.args.newAddress)]),
+    ];
+
+    const blocklistSize = await contract.getBlocklistSize();
+    console.log(`Found ${users.length} users, blocklist size ${blocklistSize}`);
+
+    let screened = 0;
+    for (const user of users) {
+      const [status] = await contract.getKYCStatus(user);
+      const [, screenedEntries] = await contract.getBlocklistScreening(user);
+      if (KYC_STATUS_LABELS[Number(status)] === "NONE" || screenedEntries >= blocklistSize) {
+        continue;
+      }
+
+      let remaining: bigint;
+      do {
+        remaining = await contract.screenKYC.staticCall(user, batchsize);
+        const transaction = await contract.screenKYC(user, batchsize);
+        await transaction.wait();
+        console.log(`- ${user}: ${transaction.hash} (${remaining} entries remaining)`);
+      } while (remaining > 0n);
+      screened++;
+    }
+
+    console.log(`\nScreened ${screened} users against new entries`);
+  });
+
+task("set-project-requirements", "Register the eligibility policy of a project")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("projectindex", "Project address that will be allowed to check eligibility")
+  .addParam("minage", "Minimum age requirement")
+  .addParam("countries", "Allowed country codes (comma-separated, e.g., 1,2,3)")
+  .addOptionalParam(
+    "documents",
+    `Accepted document types (comma-separated from ${Object.keys(DOCUMENT_TYPES).join(", ")}; empty accepts any)`,
+    ""
+  )
+  .addOptionalParam("maxverificationdays", "Maximum age of an accepted verification in days (0 uses the global default)", "0")
+  .addOptionalParam("mintier", `Lowest accepted assurance tier (${KYC_TIERS.join(", ")}; none accepts any)`, "none")
+  .addOptionalParam("accredited", "Require accredited investors (true/false)", "false")
+  .addOptionalParam("minincomeband", `Lowest accepted income band (0-${INCOME_BANDS.length - 1}; 0 accepts any)`, "0")
+  .addOptionalParam("maxrisk", `Highest accepted AML risk score (1-${MAX_RISK_SCORE}; 0 disables the check)`, "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { projectindex, minage, countries, documents, maxverificationdays } = taskArguments;
+    const minTier = parseTier(taskArguments.mintier);
+    const requireAccredited = taskArguments.accredited.toLowerCase() === "true";
+    const minIncomeBand = parseIncomeBand(taskArguments.minincomeband);
+    const maxRiskScore = parseRiskScore(taskArguments.maxrisk);
+
+    const signers = await ethers.getSigners();
+    const signer = signers[0]
+    const projectaddress = signers[projectindex].address
+    console.log("Setting project requirements with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const allowedCountryMask = toCountryMask(countries.split(",").map((c: string) => parseInt(c.trim())));
+    const acceptedDocumentTypes = toDocumentTypeMask(documents ? documents.split(",") : []);
+
+    const transaction = await contract.setProjectRequirements(
+      projectaddress,
+      parseInt(minage),
+      allowedCountryMask,
+      acceptedDocumentTypes,
+      BigInt(maxverificationdays) * 86400n,
+      minTier,
+      requireAccredited,
+      minIncomeBand,
+      maxRiskScore
+    );
+
+    await transaction.wait();
+
+    const requirements = await contract.getProjectRequirements(projectaddress);
+
+    console.log(`Project address authorized: ${projectaddress}`);
+    console.log("Allowed country mask:", `0x${allowedCountryMask.toString(16)}`);
+    console.log("Accepted documents:", fromDocumentTypeMask(acceptedDocumentTypes));
+    console.log("Minimum tier:", KYC_TIERS[minTier]);
+    console.log("Accredited investors only:", requireAccredited);
+    console.log("Minimum income band:", minIncomeBand ? INCOME_BANDS[minIncomeBand] : "any");
+    console.log("Maximum risk score:", maxRiskScore || "no limit");
+    console.log("Policy hash:", requirements.policyHash);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("check-eligibility", "Check eligibility against the project's stored policy (must be called by project address)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "User address to check")
+  .addParam("projectindex", "Index of the project address in signers array")
+  .addOptionalParam("public", "Publish the result on-chain through the decryption oracle (true/false)", "false")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { userindex, projectindex } = taskArguments;
+    const isPublic = taskArguments.public.toLowerCase() === "true";
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const userSigner = signers[userindex];
+    const projectSigner = signers[projectindex];
+    const user = userSigner.address;
+    console.log("Checking eligibility for user:", user);
+    console.log("Using project account:", projectSigner.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+    const contractWithProjectSigner = contract.connect(projectSigner);
+
+    const requirements = await contract.getProjectRequirements(projectSigner.address);
+    if (!requirements.isActive) {
+      console.error(`No active policy registered for project ${projectSigner.address}`);
+      return;
+    }
+
+    if (!(await contract.hasConsent(user, projectSigner.address))) {
+      console.error(`User ${user} has not granted consent to project ${projectSigner.address} (see grant-consent)`);
+      return;
+    }
+
+    try {
+      const transaction = isPublic
+        ? await contractWithProjectSigner.requestPublicEligibility(user)
+        : await contractWithProjectSigner.checkEligibility(user);
+      const receipt = await transaction.wait();
+
+      console.log(`Eligibility checked for user: ${user}`);
+      console.log(`By project address: ${projectSigner.address}`);
+      console.log("Stored policy used:");
+      console.log("- Minimum age:", Number(requirements.minAge));
+      console.log("- Allowed countries:", fromCountryMask(requirements.allowedCountryMask));
+      console.log("- Accepted documents:", fromDocumentTypeMask(requirements.acceptedDocumentTypes));
+      console.log("- Max verification age (days):", Number(requirements.maxVerificationAge) / 86400 || "global default");
+      console.log("- Policy hash:", requirements.policyHash);
+      console.log("Transaction hash:", transaction.hash);
+
+      if (isPublic) {
+        // The mock oracle has to be driven by hand; on Sepolia the relayer calls back on its own
+        if (fhevm.isMock) {
+          await fhevm.awaitDecryptionOracle();
+        }
+
+        const events = await contract.queryFilter(
+          contract.filters.EligibilityChecked(user, projectSigner.address),
+          receipt?.blockNumber
+        );
+        if (events.length === 0) {
+          console.log("\n⏳ Public decryption requested; EligibilityChecked will be emitted once the oracle responds");
+        } else {
+          const eligible = events[events.length - 1].args.eligible;
+          console.log("\n✅ Public eligibility result:", eligible ? "ELIGIBLE" : "NOT ELIGIBLE");
+        }
+        return;
+      }
+      
+      // Try to decrypt the stored result
+      try {
+        console.log("\nAttempting to decrypt eligibility result...");
+        
+        const eligibilityResult = await contract.getCheckEligibilityResult(projectSigner.address, user);
+
+        // Try to decrypt with project signer (who called the function)
+        const decryptedEligibility = await fhevm.userDecryptEbool(
+          eligibilityResult,
+          secureKYCDeployment.address,
+          projectSigner
+        );
+        
+        console.log("✅ Decrypted eligibility result:", decryptedEligibility ? "ELIGIBLE" : "NOT ELIGIBLE");
+        
+      } catch (decryptError) {
+        console.log("❌ Could not decrypt result - may need to wait or use frontend");
+        console.log("Decrypt error:", (decryptError as Error).message);
+      }
+      
+    } catch (error) {
+      console.error("Error checking eligibility:", error);
+    }
+  });
+
+task("check-eligibility-batch", "Check many users against the project's stored policy and export a results CSV")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("file", "CSV (address per line) or JSON array of addresses")
+  .addOptionalParam("gaslimit", "Maximum gas per transaction", "15000000")
+  .addOptionalParam("chunksize", "Maximum number of users per transaction", "20")
+  .addOptionalParam("output", "Path of the CSV results file", "eligibility-results.csv")
+  .addOptionalParam("projectindex", "Index of the project account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { file, output, projectindex } = taskArguments;
+    const gasLimit = BigInt(taskArguments.gaslimit);
+    const chunkSize = parseInt(taskArguments.chunksize);
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const projectSigner = signers[projectindex];
+    console.log("Batch checking eligibility with project account:", projectSigner.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = (await ethers.getContractAt("SecureKYC", secureKYCDeployment.address)).connect(projectSigner);
+
+    const requirements = await contract.getProjectRequirements(projectSigner.address);
+    if (!requirements.isActive) {
+      console.error(`No active policy registered for project ${projectSigner.address}`);
+      return;
+    }
+
+    // Invalid addresses are reported as failed and never sent
+    const results = new Map<string, string>();
+    const users: string[] = [];
+    for (const { address } of readBatchEntries(file)) {
+      if (isAddress(address)) {
+        users.push(address);
+      } else {
+        results.set(address, "failed (invalid address)");
+      }
+    }
+    console.log(`Prepared ${users.length} users (${results.size} failed)`);
+
+    const checked = new Set<string>();
+    for (let start = 0; start < users.length; ) {
+      // Halve the chunk until its gas estimate fits under the limit
+      let chunk = users.slice(start, start + chunkSize);
+      let estimate = await contract.checkEligibilityBatch.estimateGas(chunk);
+      while (estimate > gasLimit && chunk.length > 1) {
+        chunk = chunk.slice(0, Math.ceil(chunk.length / 2));
+        estimate = await contract.checkEligibilityBatch.estimateGas(chunk);
+      }
+      start += chunk.length;
+
+      if (estimate > gasLimit) {
+        results.set(chunk[0], `failed (needs ${estimate} gas)`);
+        continue;
+      }
+
+      const transaction = await contract.checkEligibilityBatch(chunk);
+      const receipt = await transaction.wait();
+      for (const log of receipt!.logs) {
+        const event = contract.interface.parseLog(log);
+        if (event?.name === "EligibilityCheckPerformed") {
+          checked.add(event.args.user);
+        } else if (event?.name === "EligibilityCheckSkipped") {
+          results.set(event.args.user, `skipped (${ELIGIBILITY_SKIP_REASONS[Number(event.args.reason)]})`);
+        }
+      }
+      console.log(`Processed ${start}/${users.length} users (tx: ${transaction.hash})`);
+    }
+
+    const handles = new Map<string, string>();
+    for (const user of checked) {
+      handles.set(user, await contract.getCheckEligibilityResult(projectSigner.address, user));
+    }
+
+    // One signature authorizes every decryption request, sent in chunks of MAX_DECRYPT_HANDLES results
+    const keypair = fhevm.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const durationDays = 1;
+    const contractAddresses = [secureKYCDeployment.address];
+    const eip712 = fhevm.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+    const signature = await projectSigner.signTypedData(
+      eip712.domain,
+      { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+      eip712.message,
+    );
+
+    const uniqueHandles = [...new Set(handles.values())];
+    const decrypted: Record<string, unknown> = {};
+    for (let start = 0; start < uniqueHandles.length; start += MAX_DECRYPT_HANDLES) {
+      const end = Math.min(start + MAX_DECRYPT_HANDLES, uniqueHandles.length);
+      console.log(`Decrypting results ${start + 1}-${end} of ${uniqueHandles.length}...`);
+      const handleContractPairs = uniqueHandles
+        .slice(start, end)
+        .map((handle) => ({ handle, contractAddress: secureKYCDeployment.address }));
+      Object.assign(
+        decrypted,
+        await fhevm.userDecrypt(
+          handleContractPairs,
+          keypair.privateKey,
+          keypair.publicKey,
+          signature.replace("0x", ""),
+          contractAddresses,
+          projectSigner.address,
+          startTimestamp,
+          durationDays,
+        ),
+      );
+    }
+    for (const [user, handle] of handles) {
+      results.set(user, decrypted[handle] ? "eligible" : "ineligible");
+    }
+
+    const rows = [...results].map(([user, result]) => `${user},${result}`);
+    fs.writeFileSync(output, ["address,result", ...rows].join("\n") + "\n");
+
+    const eligibleCount = [...results.values()].filter((result) => result === "eligible").length;
+    console.log(`Eligible: ${eligibleCount}, ineligible: ${checked.size - eligibleCount}`);
+    console.log(`Not checked: ${results.size - checked.size}`);
+    console.log(`Results written to ${output}`);
+  });
+
+task("get-project-requirements", "Show the eligibility policy registered for a project")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("projectaddress", "Project address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { projectaddress } = taskArguments;
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const requirements = await contract.getProjectRequirements(projectaddress);
+
+    console.log(`Policy for project ${projectaddress}:`);
+    console.log("Active:", requirements.isActive);
+    console.log("Minimum age:", Number(requirements.minAge));
+    console.log("Allowed countries:", fromCountryMask(requirements.allowedCountryMask));
+    console.log("Accepted documents:", fromDocumentTypeMask(requirements.acceptedDocumentTypes));
+    console.log("Max verification age (days):", Number(requirements.maxVerificationAge) / 86400 || "global default");
+    console.log("Minimum tier:", KYC_TIERS[Number(requirements.minTier)]);
+    console.log("Accredited investors only:", requirements.requireAccredited);
+    const minIncomeBand = Number(requirements.minIncomeBand);
+    console.log("Minimum income band:", minIncomeBand ? INCOME_BANDS[minIncomeBand] : "any");
+    console.log("Maximum risk score:", Number(requirements.maxRiskScore) || "no limit");
+    console.log("Policy hash:", requirements.policyHash);
+  });
+
+task("generate-proof", "Generate a proof of eligibility for a project against its stored policy")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the user account in signers array")
+  .addParam("projectaddress", "Project address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
+    const { userindex, projectaddress } = taskArguments;
+    await fhevm.initializeCLIApi();
+
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Generating proof with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const requirements = await contract.getProjectRequirements(projectaddress);
+    if (!requirements.isActive) {
+      console.error(`No active policy registered for project ${projectaddress}`);
+      return;
+    }
+
+    const transaction = await contract.connect(signer).generateProof(projectaddress);
+    await transaction.wait();
+
+    console.log(`Proof generated for project: ${projectaddress}`);
+    console.log("Policy hash:", requirements.policyHash);
+    console.log("Transaction hash:", transaction.hash);
+
+    try {
+      const proof = await contract.getProjectProof(signer.address, projectaddress);
+      const decryptedProof = await fhevm.userDecryptEuint(
+        FhevmType.euint256,
+        proof,
+        secureKYCDeployment.address,
+        signer
+      );
+
+      console.log("✅ Decrypted proof:", decryptedProof === 0n ? "NOT ELIGIBLE (zero proof)" : `0x${decryptedProof.toString(16)}`);
+    } catch (decryptError) {
+      console.log("❌ Could not decrypt proof - may need to wait or use frontend");
+      console.log("Decrypt error:", (decryptError as Error).message);
+    }
+  });
+
+task("set-verification-validity", "Set the default validity period of KYC approvals (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("days", "Validity period in days")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { days } = taskArguments;
+
+    const [signer] = await ethers.getSigners();
+    console.log("Updating verification validity with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.setDefaultVerificationValidity(BigInt(days) * 86400n);
+    await transaction.wait();
+
+    console.log(`Default verification validity set to ${days} days`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("set-verification-quorum", "Set how many distinct verifiers must approve a submission (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("quorum", "Number of approvals required, at least 1")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { quorum } = taskArguments;
+
+    const [signer] = await ethers.getSigners();
+    console.log("Updating verification quorum with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.setVerificationQuorum(BigInt(quorum));
+    await transaction.wait();
+
+    console.log(`Verification quorum set to ${quorum} approvals`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("authorize-verifier", "Authorize or deauthorize a KYC verifier")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("verifier", "Verifier address")
+  .addParam("authorized", "true to authorize, false to deauthorize")
+  .addOptionalParam("invalidate", "When deauthorizing: none, revoke or review the verifier's past approvals", "none")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { verifier, authorized, invalidate } = taskArguments;
+
+    const [signer] = await ethers.getSigners();
+    console.log("Managing verifier authorization with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const isAuthorized = authorized.toLowerCase() === "true";
+    const mode = INVALIDATION_MODES[invalidate.toLowerCase()];
+    if (mode === undefined) {
+      throw new Error(`Unknown invalidation mode: ${invalidate} (expected none, revoke or review)`);
+    }
+
+    const transaction =
+      !isAuthorized && mode !== INVALIDATION_MODES.none
+        ? await contract.deauthorizeVerifier(verifier, mode)
+        : isAuthorized
+          ? await contract.grantRole(ROLES.verifier, verifier)
+          : await contract.revokeRole(ROLES.verifier, verifier);
+    await transaction.wait();
+
+    console.log(`Verifier ${verifier} ${isAuthorized ? "authorized" : "deauthorized"}`);
+    if (!isAuthorized && mode !== INVALIDATION_MODES.none) {
+      console.log(`Past approvals marked for ${invalidate.toLowerCase()}; run list-verifier-approvals to see affected users`);
+    }
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("grant-role", "Grant the verifier, project-manager or auditor role to an account (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("role", `Role to grant (${Object.keys(ROLES).join(", ")})`)
+  .addParam("account", "Address receiving the role")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { account } = taskArguments;
+    const role = parseRole(taskArguments.role);
+
+    const [signer] = await ethers.getSigners();
+    console.log("Granting role with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.grantRole(role, account);
+    await transaction.wait();
+
+    console.log(`Role ${taskArguments.role.toLowerCase()} granted to ${account}`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("revoke-role", "Revoke the verifier, project-manager or auditor role from an account (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("role", `Role to revoke (${Object.keys(ROLES).join(", ")})`)
+  .addParam("account", "Address losing the role")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { account } = taskArguments;
+    const role = parseRole(taskArguments.role);
+
+    const [signer] = await ethers.getSigners();
+    console.log("Revoking role with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.revokeRole(role, account);
+    await transaction.wait();
+
+    console.log(`Role ${taskArguments.role.toLowerCase()} revoked from ${account}`);
+    if (role === ROLES.verifier) {
+      console.log("Past approvals stay valid; run authorize-verifier with --invalidate to invalidate them");
+    }
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("list-roles", "List the admin and every current role holder (from RoleGranted/RoleRevoked logs)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addOptionalParam("fromblock", "Block to start scanning logs from", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { fromblock } = taskArguments;
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const pendingAdmin = await contract.pendingAdmin();
+    console.log("Admin:", await contract.admin());
+    if (pendingAdmin !== ZeroAddress) {
+      console.log("Pending admin:", pendingAdmin);
+    }
+
+    const events = await contract.queryFilter(contract.filters.RoleGranted(), parseInt(fromblock));
+    for (const [name, role] of Object.entries(ROLES)) {
+      if (role === ROLES.admin) {
+        continue;
+      }
+
+      // Every holder was granted the role at some point; hasRole filters out later revocations
+      const granted = events.filter((event) => event.args.role === role).map((event) => event.args.account);
+      const candidates = [...new Set(granted)];
+      const holders: string[] = [];
+      for (const account of candidates) {
+        if (await contract.hasRole(role, account)) {
+          holders.push(account);
+        }
+      }
+
+      console.log(`\n${name} (${holders.length}):`);
+      holders.forEach((account) => console.log(`- ${account}`));
+    }
+  });
+
+task("transfer-admin", "Propose a new admin, who must run accept-admin to take over (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("newadmin", "Address of the proposed admin (zero address cancels a pending transfer)")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { newadmin } = taskArguments;
+
+    const [signer] = await ethers.getSigners();
+    console.log("Transferring admin with account:", signer.address);
 
-task("submit-kyc", "Submit KYC data for verification")
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.transferAdmin(newadmin);
+    await transaction.wait();
+
+    if (newadmin === ZeroAddress) {
+      console.log("Pending admin transfer cancelled");
+    } else {
+      console.log(`Admin transfer to ${newadmin} started; it takes effect once they run accept-admin`);
+    }
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("accept-admin", "Accept a pending admin transfer (proposed admin only)")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("passport", "Passport number (will be converted to address)")
-  .addParam("birthyear", "Birth year (e.g., 1990)")
-  .addParam("country", "Country code (1-255)")
-  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
-    const { passport, birthyear, country } = taskArguments;
-    await fhevm.initializeCLIApi()
-    const [signer] = await ethers.getSigners();
-    console.log("Submitting KYC data with account:", signer.address);
+  .addOptionalParam("signerindex", "Index of the proposed admin account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { signerindex } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const signer = signers[signerindex];
+    console.log("Accepting admin role with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.connect(signer).acceptAdmin();
+    await transaction.wait();
+
+    console.log(`${signer.address} is now the admin`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task(
+  "list-verifier-approvals",
+  "List users whose current approval a verifier issued or co-signed (from KYCVerified, KYCApprovalRecorded and KYCMigrated logs)",
+)
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("verifier", "Verifier address")
+  .addOptionalParam("fromblock", "Block to start scanning logs from", "0")
+  .addOptionalParam("apply", "Apply a pending invalidation to every affected user (true/false)", "false")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { verifier, fromblock, apply } = taskArguments;
 
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
@@ -19,61 +1453,153 @@ task("submit-kyc", "Submit KYC data for verification")
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
-    // Convert passport number to address format (reversible method)
-    // Passport numbers are typically alphanumeric and < 20 chars
-    const passportBytes = ethers.toUtf8Bytes(passport);
+    // Quorum approvals are only attributed to the verifier completing them, so co-signatures are scanned as well
+    const events = [
+      ...(await contract.queryFilter(contract.filters.KYCVerified(undefined, verifier), parseInt(fromblock))),
+      ...(await contract.queryFilter(contract.filters.KYCApprovalRecorded(undefined, verifier), parseInt(fromblock))),
+    ];
+
+    // Migrated approvals keep their verifier, so follow each record to the wallet now holding it
+    const migrations = new Map<string, string>();
+    const migrationEvents = await contract.queryFilter(contract.filters.KYCMigrated(), parseInt(fromblock));
+    for (const event of migrationEvents) {
+      migrations.set(event.args.oldAddress.toLowerCase(), event.args.newAddress);
+    }
 
-    if (passportBytes.length > 20) {
-      throw new Error("Passport number too long (max 20 characters)");
+    const holders: string[] = [];
+    for (const event of events) {
+      let holder = event.args.user;
+      const visited = new Set<string>();
+      while (migrations.has(holder.toLowerCase()) && !visited.has(holder.toLowerCase())) {
+        visited.add(holder.toLowerCase());
+        // A wallet that moved its record out holds nothing until it submits again
+        const [status] = await contract.getKYCStatus(holder);
+        if (KYC_STATUS_LABELS[Number(status)] !== "NONE") {
+          break;
+        }
+        holder = migrations.get(holder.toLowerCase())!;
+      }
+      holders.push(holder);
     }
+    const users = [...new Set(holders)];
+
+    const invalidation = await contract.verifierInvalidations(verifier);
+    const invalidationMode = Object.keys(INVALIDATION_MODES).find((key) => INVALIDATION_MODES[key] === Number(invalidation.mode));
+    console.log(`Found ${events.length} KYCVerified and KYCApprovalRecorded events for ${users.length} users`);
+    console.log("Invalidation mode:", invalidationMode);
+
+    const affected: string[] = [];
+    for (const user of users) {
+      const [, timestamp, verifiedBy] = await contract.getVerificationStatus(user);
+      const [status] = await contract.getKYCStatus(user);
+      const approvedBy = await contract.getApprovingVerifiers(user);
+
+      // Only approvals this verifier completed or counted towards are affected; re-verified users are not
+      const approvers = [verifiedBy, ...approvedBy].map((address) => address.toLowerCase());
+      if (!approvers.includes(verifier.toLowerCase())) {
+        continue;
+      }
 
-    // Pad to 20 bytes (address length) with zeros
-    const paddedBytes = new Uint8Array(20);
-    paddedBytes.set(passportBytes);
+      const isAffected =
+        KYC_STATUS_LABELS[Number(status)] === "APPROVED" &&
+        invalidation.mode !== 0n &&
+        timestamp <= invalidation.invalidatedAt;
+      console.log(`- ${user}: ${KYC_STATUS_LABELS[Number(status)]}${isAffected ? " (AFFECTED)" : ""}`);
+      if (isAffected) {
+        affected.push(user);
+      }
+    }
 
-    // Convert to address format
-    const passportAddress = ethers.hexlify(paddedBytes);
+    console.log(`\n${affected.length} users pending invalidation`);
 
-    console.log("Passport number:", passport);
-    console.log("Passport converted to address:", passportAddress);
+    if (apply.toLowerCase() === "true") {
+      for (const user of affected) {
+        const transaction = await contract.applyVerifierInvalidation(user);
+        await transaction.wait();
+        console.log(`Invalidation applied to ${user}: ${transaction.hash}`);
+      }
+    }
+  });
 
-    // Test reverse conversion for verification
-    const reversedPassport = ethers.toUtf8String(passportAddress).replace(/\0+$/, '');
-    console.log("Reverse conversion test:", reversedPassport);
+task("get-verification-status", "Get verification status of a user")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "User address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const user = signers[userindex].address
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const [verified, timestamp, verifier, expiresAt, approvals, quorum, tier] = await contract.getVerificationStatus(user);
+    const [status, rejectionReason] = await contract.getKYCStatus(user);
+
+    console.log(`Verification status for ${user}:`);
+    console.log("Verified:", verified);
+    if (verified) {
+      console.log("Tier:", KYC_TIERS[Number(tier)]);
+    }
+    console.log("Review status:", KYC_STATUS_LABELS[Number(status)]);
+    if (Number(rejectionReason) !== 0) {
+      console.log("Rejection reason:", `${rejectionReason} (${REJECTION_REASONS[Number(rejectionReason)] ?? "Custom"})`);
+    }
+    if (!verified && quorum > 1n) {
+      console.log("Approvals:", `${approvals}/${quorum}`);
+    }
 
-    if (reversedPassport !== passport) {
-      throw new Error("Passport conversion failed verification");
+    console.log("Verification timestamp:", new Date(Number(timestamp) * 1000).toISOString());
+    console.log("Verified by:", verifier);
+    if (expiresAt !== 0n) {
+      console.log("Verification expires:", new Date(Number(expiresAt) * 1000).toISOString());
     }
 
-    // Create encrypted input
-    const input = fhevm.createEncryptedInput(secureKYCDeployment.address, signer.address);
-    input.addAddress(passportAddress); // passport as address
-    input.add32(BigInt(birthyear));     // birth year
-    input.add8(BigInt(country));        // country code
+  });
 
-    const encryptedInput = await input.encrypt();
+task("grant-consent", "Allow a project to run eligibility checks on your KYC record")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the user account in signers array")
+  .addParam("projectaddress", "Project address")
+  .addOptionalParam("days", "Number of days the consent stays valid (0 for no time limit)", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex, projectaddress, days } = taskArguments;
 
-    const transaction = await contract.submitKYC(
-      encryptedInput.handles[0], // passport address
-      encryptedInput.handles[1], // birth year
-      encryptedInput.handles[2], // country code
-      encryptedInput.inputProof
-    );
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Granting consent with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const expiresAt = BigInt(days) === 0n ? 0n : BigInt(latestBlock!.timestamp) + BigInt(days) * 86400n;
 
+    const transaction = await contract.connect(signer).grantConsent(projectaddress, expiresAt);
     await transaction.wait();
-    console.log("KYC data submitted successfully!");
+
+    console.log(`Consent granted to project: ${projectaddress}`);
+    console.log("Expires:", expiresAt === 0n ? "never" : new Date(Number(expiresAt) * 1000).toISOString());
     console.log("Transaction hash:", transaction.hash);
   });
 
-task("verify-kyc", "Verify a user's KYC data (authorized verifiers only)")
+task("revoke-consent", "Withdraw a project's permission to run eligibility checks on your KYC record")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("userindex", "The user's address to verify")
+  .addParam("userindex", "Index of the user account in signers array")
+  .addParam("projectaddress", "Project address")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-    const { userindex } = taskArguments;
+    const { userindex, projectaddress } = taskArguments;
 
     const signers = await ethers.getSigners();
-    const signer = signers[userindex]
-    console.log("Verifying KYC with account:", signer.address);
+    const signer = signers[userindex];
+    console.log("Revoking consent with account:", signer.address);
 
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
@@ -82,23 +1608,52 @@ task("verify-kyc", "Verify a user's KYC data (authorized verifiers only)")
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
-    const transaction = await contract.verifyKYC(signer.address);
+    const transaction = await contract.connect(signer).revokeConsent(projectaddress);
     await transaction.wait();
 
-    console.log(`KYC verified for user: ${signer.address}`);
+    console.log(`Consent revoked for project: ${projectaddress}`);
     console.log("Transaction hash:", transaction.hash);
   });
 
-task("set-project-requirements", "Set requirements for a project")
+task("list-consents", "List the projects a user has granted consent to")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("projectindex", "Project address that will be allowed to check eligibility")
+  .addParam("user", "User address")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { user } = taskArguments;
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const [projects, expiries] = await contract.getConsents(user);
+    if (projects.length === 0) {
+      console.log(`User ${user} has not granted consent to any project`);
+      return;
+    }
+
+    const latestBlock = await ethers.provider.getBlock("latest");
+    console.log(`Consents granted by ${user}:`);
+    projects.forEach((project, i) => {
+      const expiry = expiries[i] === ethers.MaxUint256
+        ? "no time limit"
+        : `${new Date(Number(expiries[i]) * 1000).toISOString()}${expiries[i] < BigInt(latestBlock!.timestamp) ? " (lapsed)" : ""}`;
+      console.log(`- ${project}: ${expiry}`);
+    });
+  });
+
+task("initiate-migration", "Start moving your verified KYC record to a new wallet")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the current wallet in signers array")
+  .addParam("newaddress", "Wallet that will take over the record")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-    const { projectindex } = taskArguments;
+    const { userindex, newaddress } = taskArguments;
 
     const signers = await ethers.getSigners();
-    const signer = signers[0]
-    const projectaddress = signers[projectindex].address
-    console.log("Setting project requirements with account:", signer.address);
+    const signer = signers[userindex];
+    console.log("Initiating migration with account:", signer.address);
 
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
@@ -107,31 +1662,26 @@ task("set-project-requirements", "Set requirements for a project")
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
-    const transaction = await contract.setProjectRequirements(projectaddress);
-
+    const transaction = await contract.connect(signer).initiateMigration(newaddress);
     await transaction.wait();
 
-    console.log(`Project address authorized: ${projectaddress}`);
+    console.log(`Migration to ${newaddress} initiated; accept it from the new wallet with accept-migration`);
+    if (await contract.migrationRequiresVerifier()) {
+      console.log("A verifier must approve the migration first (approve-migration)");
+    }
     console.log("Transaction hash:", transaction.hash);
   });
 
-task("check-eligibility", "Check eligibility for a project (must be called by project address)")
+task("approve-migration", "Co-sign a pending wallet migration (authorized verifiers only)")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("userindex", "User address to check")
-  .addParam("projectindex", "Index of the project address in signers array")
-  .addParam("minage", "Minimum age requirement")
-  .addParam("countries", "Allowed country codes (comma-separated, e.g., 1,2,3)")
-  .addParam("passport", "Require passport (true/false)")
-  .setAction(async function (taskArguments: TaskArguments, { ethers, fhevm, deployments }) {
-    const { userindex, projectindex, minage, countries, passport } = taskArguments;
-    await fhevm.initializeCLIApi();
+  .addParam("user", "Wallet that initiated the migration")
+  .addOptionalParam("verifierindex", "Index of the verifier account in signers array", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { user, verifierindex } = taskArguments;
 
     const signers = await ethers.getSigners();
-    const userSigner = signers[userindex];
-    const projectSigner = signers[projectindex];
-    const user = userSigner.address;
-    console.log("Checking eligibility for user:", user);
-    console.log("Using project account:", projectSigner.address);
+    const verifier = signers[verifierindex];
+    console.log("Approving migration with account:", verifier.address);
 
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
@@ -139,82 +1689,73 @@ task("check-eligibility", "Check eligibility for a project (must be called by pr
     console.log(`SecureKYC: ${secureKYCDeployment.address}`);
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
-    const contractWithProjectSigner = contract.connect(projectSigner);
 
-    const allowedCountries = countries.split(",").map((c: string) => parseInt(c.trim()));
-    const requiresPassport = passport.toLowerCase() === "true";
+    const { newAddress } = await contract.walletMigrations(user);
+    const transaction = await contract.connect(verifier).approveMigration(user);
+    await transaction.wait();
 
-    try {
-      const transaction = await contractWithProjectSigner.checkEligibility(
-        user,
-        parseInt(minage),
-        allowedCountries,
-        requiresPassport
-      );
-      const receipt = await transaction.wait();
+    console.log(`Migration of ${user} to ${newAddress} approved`);
+    console.log("Transaction hash:", transaction.hash);
+  });
 
-      console.log(`Eligibility checked for user: ${user}`);
-      console.log(`By project address: ${projectSigner.address}`);
-      console.log("Requirements used:");
-      console.log("- Minimum age:", minage);
-      console.log("- Allowed countries:", allowedCountries);
-      console.log("- Requires passport:", requiresPassport);
-      console.log("Transaction hash:", transaction.hash);
-      
-      // Try to get the return value and decrypt it
-      try {
-        console.log("\nAttempting to decrypt eligibility result...");
-        
-        // Get the eligibility result from the transaction
-        const eligibilityResult = await contractWithProjectSigner.checkEligibility.staticCall(
-          user,
-          parseInt(minage),
-          allowedCountries,
-          requiresPassport
-        );
+task("accept-migration", "Take over a verified KYC record migrated to your wallet")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the new wallet in signers array")
+  .addParam("from", "Wallet that initiated the migration")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex, from } = taskArguments;
 
-        // Import FhevmType for proper type specification
-        const { FhevmType } = require("@fhevm/hardhat-plugin");
-        
-        // Try to decrypt with project signer (who called the function)
-        const decryptedEligibility = await fhevm.userDecryptEbool(
-          eligibilityResult,
-          secureKYCDeployment.address,
-          projectSigner
-        );
-        
-        console.log("✅ Decrypted eligibility result:", decryptedEligibility ? "ELIGIBLE" : "NOT ELIGIBLE");
-        
-      } catch (decryptError) {
-        console.log("❌ Could not decrypt result - may need to wait or use frontend");
-        console.log("Decrypt error:", decryptError.message);
-      }
-      
-    } catch (error) {
-      console.error("Error checking eligibility:", error);
-    }
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Accepting migration with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.connect(signer).acceptMigration(from);
+    await transaction.wait();
+
+    console.log(`KYC record moved from ${from} to ${signer.address}`);
+    console.log("Consents and proofs are not migrated; grant consent again from the new wallet");
+    console.log("Transaction hash:", transaction.hash);
   });
 
-// Note: generateProof function is currently commented out in the contract
-// task("generate-proof", "Generate proof of eligibility for a project")
-//   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-//   .addParam("projectaddress", "Project address")
-//   .addParam("minage", "Minimum age requirement")
-//   .addParam("countries", "Allowed country codes (comma-separated, e.g., 1,2,3)")
-//   .addParam("passport", "Require passport (true/false)")
-//   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-//     console.log("generateProof function is currently disabled in the contract");
-//   });
+task("cancel-migration", "Abandon your pending wallet migration")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the current wallet in signers array")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Cancelling migration with account:", signer.address);
 
-task("authorize-verifier", "Authorize or deauthorize a KYC verifier")
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.connect(signer).cancelMigration();
+    await transaction.wait();
+
+    console.log("Migration cancelled");
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("set-migration-cosign", "Require or stop requiring a verifier to co-sign wallet migrations (admin only)")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("verifier", "Verifier address")
-  .addParam("authorized", "true to authorize, false to deauthorize")
+  .addParam("required", "true to require a verifier co-signature, false to drop the requirement")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-    const { verifier, authorized } = taskArguments;
+    const required = taskArguments.required === "true";
 
     const [signer] = await ethers.getSigners();
-    console.log("Managing verifier authorization with account:", signer.address);
+    console.log("Updating migration policy with account:", signer.address);
 
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
@@ -223,23 +1764,41 @@ task("authorize-verifier", "Authorize or deauthorize a KYC verifier")
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
-    const isAuthorized = authorized.toLowerCase() === "true";
+    const transaction = await contract.setMigrationRequiresVerifier(required);
+    await transaction.wait();
+
+    console.log(`Verifier co-signature ${required ? "required" : "not required"} for wallet migrations`);
+    console.log("Transaction hash:", transaction.hash);
+  });
+
+task("pause", "Halt the contract, or a single function with --function, e.g. after a key compromise (admin only)")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addOptionalParam("function", `Function to pause on its own (${PAUSABLE_FUNCTIONS.join(", ")})`)
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const [signer] = await ethers.getSigners();
+    console.log("Pausing with account:", signer.address);
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
 
-    const transaction = await contract.setAuthorizedVerifier(verifier, isAuthorized);
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.pause(pauseSelector(contract, taskArguments.function));
     await transaction.wait();
 
-    console.log(`Verifier ${verifier} ${isAuthorized ? "authorized" : "deauthorized"}`);
+    console.log(`Paused ${taskArguments.function ?? "all pausable functions"}`);
     console.log("Transaction hash:", transaction.hash);
   });
 
-task("get-verification-status", "Get verification status of a user")
+task("unpause", "Lift the global pause, or the pause of a single function with --function (admin only)")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("userindex", "User address")
+  .addOptionalParam("function", `Function to unpause (${PAUSABLE_FUNCTIONS.join(", ")})`)
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
-    const { userindex } = taskArguments;
+    const [signer] = await ethers.getSigners();
+    console.log("Unpausing with account:", signer.address);
 
-    const signers = await ethers.getSigners();
-    const user = signers[userindex].address
     const secureKYCDeployment = taskArguments.address
       ? { address: taskArguments.address }
       : await deployments.get("SecureKYC");
@@ -247,14 +1806,46 @@ task("get-verification-status", "Get verification status of a user")
 
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
-    const [verified, timestamp, verifier] = await contract.getVerificationStatus(user);
+    const transaction = await contract.unpause(pauseSelector(contract, taskArguments.function));
+    await transaction.wait();
 
-    console.log(`Verification status for ${user}:`);
-    console.log("Verified:", verified);
+    console.log(`Unpaused ${taskArguments.function ?? "the contract"}`);
+    for (const name of PAUSABLE_FUNCTIONS) {
+      if (await contract.isPaused(pauseSelector(contract, name))) {
+        console.log(`${name} remains paused`);
+      }
+    }
+    console.log("Transaction hash:", transaction.hash);
+  });
 
-    console.log("Verification timestamp:", new Date(Number(timestamp) * 1000).toISOString());
-    console.log("Verified by:", verifier);
+task("delete-kyc", "Erase your KYC record with its eligibility results, proofs and consents")
+  .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
+  .addParam("userindex", "Index of the user account in signers array")
+  .addOptionalParam("confirm", "Set to true to confirm the erasure", "false")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { userindex, confirm } = taskArguments;
+
+    const signers = await ethers.getSigners();
+    const signer = signers[userindex];
+    console.log("Deleting KYC record of account:", signer.address);
+
+    if (confirm !== "true") {
+      console.error("Erasure cannot be undone; rerun with --confirm true to delete the record");
+      return;
+    }
+
+    const secureKYCDeployment = taskArguments.address
+      ? { address: taskArguments.address }
+      : await deployments.get("SecureKYC");
+    console.log(`SecureKYC: ${secureKYCDeployment.address}`);
+
+    const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
+
+    const transaction = await contract.connect(signer).deleteKYC();
+    await transaction.wait();
 
+    console.log(`KYC record of ${signer.address} deleted`);
+    console.log("Transaction hash:", transaction.hash);
   });
 
 task("has-project-proof", "Check if user has proof for a project")
@@ -272,11 +1863,13 @@ task("has-project-proof", "Check if user has proof for a project")
     const contract = await ethers.getContractAt("SecureKYC", secureKYCDeployment.address);
 
     const hasProof = await contract.hasProjectProof(user, projectaddress);
+    const proofProjects = await contract.getProofProjects(user);
 
     console.log(`User ${user} has proof for project address "${projectaddress}": ${hasProof}`);
+    console.log("All projects with proofs:", proofProjects.length > 0 ? proofProjects : "none");
   });
 
-// Utility functions for passport <-> address conversion
+// Utility functions for document number <-> address conversion
 function passportToAddress(passport: string): string {
   const { ethers } = require("hardhat");
 
@@ -356,41 +1949,59 @@ task("get-user-kyc-data", "Get user's encrypted KYC data and decrypt it")
       console.log(`Getting encrypted KYC data for user: ${signer.address}`);
 
       // Get encrypted KYC data from contract
-      const [encryptedPassportAddress, encryptedBirthYear, encryptedCountryCode] = await contract.getUserKYCData(signer.address);
+      const [encryptedDocumentNumber, encryptedDateOfBirth, encryptedCountryCode, encryptedDocumentType, encryptedExpiry] =
+        await contract.getUserKYCData(signer.address);
 
       console.log("Encrypted data retrieved:");
-      console.log("- Passport address (encrypted):", encryptedPassportAddress);
-      console.log("- Birth year (encrypted):", encryptedBirthYear);
+      console.log("- Document type (encrypted):", encryptedDocumentType);
+      console.log("- Document number address (encrypted):", encryptedDocumentNumber);
+      console.log("- Document expiry (encrypted):", encryptedExpiry);
+      console.log("- Date of birth (encrypted):", encryptedDateOfBirth);
       console.log("- Country code (encrypted):", encryptedCountryCode);
 
       // Try to decrypt the data (user must have permission)
       console.log("\nAttempting to decrypt data...");
 
       try {
-        // Import FhevmType for proper type specification
-        const { FhevmType } = require("@fhevm/hardhat-plugin");
+        // Decrypt document type (euint8 type)
+        const decryptedDocumentType = await fhevm.userDecryptEuint(
+          FhevmType.euint8,
+          encryptedDocumentType,
+          secureKYCDeployment.address,
+          signer
+        );
+        console.log("✅ Decrypted document type:", documentTypeName(Number(decryptedDocumentType)));
 
-        // Decrypt passport address (eaddress type)
-        const decryptedPassportAddress = await fhevm.userDecryptEaddress(
-          encryptedPassportAddress,
+        // Decrypt document number address (eaddress type)
+        const decryptedDocumentAddress = await fhevm.userDecryptEaddress(
+          encryptedDocumentNumber,
           secureKYCDeployment.address,
           signer
         );
 
-        // Convert address back to passport number
-        const passportNumber = addressToPassport(decryptedPassportAddress);
+        // Convert address back to document number
+        const documentNumber = addressToPassport(decryptedDocumentAddress);
 
-        console.log("✅ Decrypted passport address:", decryptedPassportAddress);
-        console.log("✅ Converted to passport number:", passportNumber);
+        console.log("✅ Decrypted document number address:", decryptedDocumentAddress);
+        console.log("✅ Converted to document number:", documentNumber);
+
+        // Decrypt document expiry (euint32 type, packed YYYYMMDD)
+        const decryptedExpiry = await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          encryptedExpiry,
+          secureKYCDeployment.address,
+          signer
+        );
+        console.log("✅ Decrypted document expiry:", formatPackedDate(decryptedExpiry));
 
-        // Decrypt birth year (euint32 type)
-        const decryptedBirthYear = await fhevm.userDecryptEuint(
+        // Decrypt date of birth (euint32 type, packed YYYYMMDD)
+        const decryptedDateOfBirth = await fhevm.userDecryptEuint(
           FhevmType.euint32,
-          encryptedBirthYear,
+          encryptedDateOfBirth,
           secureKYCDeployment.address,
           signer
         );
-        console.log("✅ Decrypted birth year:", Number(decryptedBirthYear));
+        console.log("✅ Decrypted date of birth:", formatPackedDate(decryptedDateOfBirth));
 
         // Decrypt country code (euint8 type)
         const decryptedCountryCode = await fhevm.userDecryptEuint(
@@ -402,10 +2013,28 @@ task("get-user-kyc-data", "Get user's encrypted KYC data and decrypt it")
         console.log("✅ Decrypted country code:", Number(decryptedCountryCode));
 
         console.log("\n=== Complete KYC Information ===");
-        console.log("Passport Number:", passportNumber || "Unable to convert");
-        console.log("Birth Year:", Number(decryptedBirthYear));
+        console.log("Document Type:", documentTypeName(Number(decryptedDocumentType)));
+        console.log("Document Number:", documentNumber || "Unable to convert");
+        console.log("Document Expiry:", formatPackedDate(decryptedExpiry));
+        console.log("Date of Birth:", formatPackedDate(decryptedDateOfBirth));
         console.log("Country Code:", Number(decryptedCountryCode));
 
+        // Investor attributes stay unset until a verifier assesses them
+        const [encryptedAccredited, encryptedIncomeBand] = await contract.getInvestorAttributes(signer.address);
+        if (encryptedAccredited === ZeroHash) {
+          console.log("Investor Attributes: not assessed");
+        } else {
+          const accredited = await fhevm.userDecryptEbool(encryptedAccredited, secureKYCDeployment.address, signer);
+          const incomeBand = await fhevm.userDecryptEuint(
+            FhevmType.euint8,
+            encryptedIncomeBand,
+            secureKYCDeployment.address,
+            signer
+          );
+          console.log("Accredited Investor:", accredited);
+          console.log("Income Band:", INCOME_BANDS[Number(incomeBand)]);
+        }
+
       } catch (decryptError) {
         console.log("❌ Decryption failed - user may not have permission to decrypt this data");
         console.log("Error:", decryptError);
@@ -419,15 +2048,17 @@ task("get-user-kyc-data", "Get user's encrypted KYC data and decrypt it")
 
 task("test-kyc-flow", "Test complete KYC flow: submit → verify → read")
   .addOptionalParam("address", "Optionally specify the SecureKYC contract address")
-  .addParam("passport", "Passport number for testing")
-  .addParam("birthyear", "Birth year for testing")
+  .addOptionalParam("doctype", `Document type (${Object.keys(DOCUMENT_TYPES).join(", ")})`, "passport")
+  .addParam("document", "Document number for testing")
+  .addParam("expiry", "Document expiry date (YYYY-MM-DD) for testing")
+  .addParam("dob", "Date of birth (YYYY-MM-DD) for testing")
   .addParam("country", "Country code for testing")
   .setAction(async function (taskArguments: TaskArguments, { ethers, run }) {
-    const { passport, birthyear, country } = taskArguments;
+    const { doctype, document, expiry, dob, country } = taskArguments;
 
     console.log("=== Testing Complete KYC Flow ===");
-    console.log("Passport:", passport);
-    console.log("Birth Year:", birthyear);
+    console.log("Document:", `${document} (${doctype}, expires ${expiry})`);
+    console.log("Date of Birth:", dob);
     console.log("Country Code:", country);
 
     const [signer] = await ethers.getSigners();
@@ -436,8 +2067,10 @@ task("test-kyc-flow", "Test complete KYC flow: submit → verify → read")
     try {
       console.log("\n1. Submitting KYC data...");
       await run("submit-kyc", {
-        passport,
-        birthyear,
+        doctype,
+        document,
+        expiry,
+        dob,
         country,
         address: taskArguments.address
       });
@@ -445,6 +2078,8 @@ task("test-kyc-flow", "Test complete KYC flow: submit → verify → read")
       console.log("\n2. Verifying KYC data...");
       await run("verify-kyc", {
         user: userAddress,
+        doctype,
+        document,
         address: taskArguments.address
       });
 
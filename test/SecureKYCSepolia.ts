@@ -3,15 +3,44 @@ import { ethers, fhevm } from "hardhat";
 import type { SecureKYC } from "../types";
 import { Signer } from "ethers";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import EIP173Proxy from "hardhat-deploy/extendedArtifacts/EIP173Proxy.json";
+
+// Builds the allowed-country bitmask expected by setProjectRequirements (bit n allows country code n)
+function countryMask(countryCodes: number[]): bigint {
+  return countryCodes.reduce((mask, code) => mask | (1n << BigInt(code)), 0n);
+}
+
+// Accepted-document bitmask with only bit 1 (passport) set
+const PASSPORT_ONLY = 1 << 1;
+
+// Assurance tiers of SecureKYC.KYCTier used by these tests
+const KYCTier = { None: 0, Enhanced: 2 };
+
+// Approves a user on behalf of a verifier with an encrypted low AML risk score
+async function verifyKYC(secureKYC: SecureKYC, verifier: Signer, user: string, fingerprint: string, tier: number) {
+  const encryptedInput = await fhevm
+    .createEncryptedInput(await secureKYC.getAddress(), await verifier.getAddress())
+    .add8(10)
+    .encrypt();
+
+  return secureKYC
+    .connect(verifier)
+    .verifyKYC(user, fingerprint, tier, encryptedInput.handles[0], encryptedInput.inputProof);
+}
+
+// Role identifier of SecureKYC verifiers (keccak256 of the role name)
+const VERIFIER_ROLE = ethers.id("VERIFIER_ROLE");
 
 describe("SecureKYC - Sepolia Integration", function () {
   let secureKYC: SecureKYC;
   let admin: Signer;
   let verifier: Signer;
   let user1: Signer;
+  let project: Signer;
   let adminAddress: string;
   let verifierAddress: string;
   let user1Address: string;
+  let projectAddress: string;
 
   before(async function () {
     // Skip tests if not on Sepolia
@@ -21,46 +50,67 @@ describe("SecureKYC - Sepolia Integration", function () {
   });
 
   beforeEach(async function () {
-    [admin, verifier, user1] = await ethers.getSigners();
+    [admin, verifier, user1, project] = await ethers.getSigners();
     adminAddress = await admin.getAddress();
     verifierAddress = await verifier.getAddress();
     user1Address = await user1.getAddress();
+    projectAddress = await project.getAddress();
+
+    // Deploy to Sepolia behind the proxy used by deploy/deploySecureKYC.ts
+    const kycEligibility = await (await ethers.getContractFactory("KYCEligibility")).deploy();
+    const kycRecords = await (await ethers.getContractFactory("KYCRecords")).deploy();
+    const implementation = await (
+      await ethers.getContractFactory("SecureKYC", {
+        libraries: {
+          KYCEligibility: await kycEligibility.getAddress(),
+          KYCRecords: await kycRecords.getAddress(),
+        },
+      })
+    ).deploy();
+    const proxy = await new ethers.ContractFactory(EIP173Proxy.abi, EIP173Proxy.bytecode, admin).deploy(
+      await implementation.getAddress(),
+      adminAddress,
+      implementation.interface.encodeFunctionData("initialize")
+    );
+    await proxy.waitForDeployment();
+    secureKYC = await ethers.getContractAt("SecureKYC", await proxy.getAddress());
 
-    // Deploy to Sepolia
-    const SecureKYCFactory = await ethers.getContractFactory("SecureKYC");
-    secureKYC = await SecureKYCFactory.deploy();
-    await secureKYC.waitForDeployment();
-    
     console.log("SecureKYC deployed to Sepolia at:", await secureKYC.getAddress());
   });
 
   describe("Full KYC Flow on Sepolia", function () {
     it("Should complete full KYC verification and proof generation flow", async function () {
       // Step 1: Authorize verifier
-      await secureKYC.connect(admin).setAuthorizedVerifier(verifierAddress, true);
+      await secureKYC.connect(admin).grantRole(VERIFIER_ROLE, verifierAddress);
       console.log("✓ Verifier authorized");
 
       // Step 2: Set project requirements
-      const projectId = ethers.id("SepoliaTestProject");
-      await secureKYC.connect(verifier).setProjectRequirements(
-        projectId,
+      await secureKYC.connect(admin).setProjectRequirements(
+        projectAddress,
         21, // minAge
-        [1, 2, 3], // allowedCountries
-        true // requiresPassport
+        countryMask([1, 2, 3]), // allowedCountries
+        PASSPORT_ONLY, // acceptedDocumentTypes
+        0, // maxVerificationAge: global default
+        KYCTier.None, // minTier: any tier
+        false, // requireAccredited: not required
+        0, // minIncomeBand: any band
+        0 // maxRiskScore: no limit
       );
       console.log("✓ Project requirements set");
 
       // Step 3: Submit KYC data
       const passportHash = BigInt(ethers.keccak256(ethers.toUtf8Bytes("SEPOLIA_PASSPORT_123")));
-      const birthYear = 1990n;
+      const dateOfBirth = 19900415n;
       const countryCode = 1n;
 
       const input = fhevm.createEncryptedInput(
         await secureKYC.getAddress(),
         user1Address
       );
+      input.add8(1n); // passport
       input.add256(passportHash);
-      input.add32(birthYear);
+      input.add32(21000101n); // document expiry
+      input.add32(dateOfBirth);
       input.add8(countryCode);
 
       const encryptedInput = await input.encrypt();
@@ -69,12 +119,14 @@ describe("SecureKYC - Sepolia Integration", function () {
         encryptedInput.handles[0],
         encryptedInput.handles[1],
         encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.handles[4],
         encryptedInput.inputProof
       );
       console.log("✓ KYC data submitted");
 
       // Step 4: Verify KYC
-      await secureKYC.connect(verifier).verifyKYC(user1Address);
+      await verifyKYC(secureKYC, verifier, user1Address, ethers.toBeHex(passportHash, 32), KYCTier.Enhanced);
       console.log("✓ KYC verified");
 
       // Verify verification status
@@ -83,16 +135,17 @@ describe("SecureKYC - Sepolia Integration", function () {
       expect(verifierAddr).to.equal(verifierAddress);
       console.log("✓ Verification status confirmed");
 
-      // Step 5: Check eligibility (returns encrypted result)
-      await secureKYC.connect(user1).checkEligibility(user1Address, projectId);
+      // Step 5: Grant consent and check eligibility (returns encrypted result)
+      await secureKYC.connect(user1).grantConsent(projectAddress, 0);
+      await secureKYC.connect(project).checkEligibility(user1Address);
       console.log("✓ Eligibility checked");
 
       // Step 6: Generate proof
-      await secureKYC.connect(user1).generateProof(projectId);
+      await secureKYC.connect(user1).generateProof(projectAddress);
       console.log("✓ Proof generated");
 
       // Verify proof was generated
-      const hasProof = await secureKYC.hasProjectProof(user1Address, projectId);
+      const hasProof = await secureKYC.hasProjectProof(user1Address, projectAddress);
       expect(hasProof).to.be.true;
       console.log("✓ Proof generation confirmed");
     });
@@ -100,15 +153,17 @@ describe("SecureKYC - Sepolia Integration", function () {
     it("Should decrypt user's encrypted KYC data on Sepolia", async function () {
       // Submit KYC data
       const passportHash = BigInt(ethers.keccak256(ethers.toUtf8Bytes("DECRYPT_TEST_PASSPORT")));
-      const birthYear = 2000n;
+      const dateOfBirth = 20000101n;
       const countryCode = 2n;
 
       const input = fhevm.createEncryptedInput(
         await secureKYC.getAddress(),
         user1Address
       );
+      input.add8(1n); // passport
       input.add256(passportHash);
-      input.add32(birthYear);
+      input.add32(21000101n); // document expiry
+      input.add32(dateOfBirth);
       input.add8(countryCode);
 
       const encryptedInput = await input.encrypt();
@@ -117,11 +172,13 @@ describe("SecureKYC - Sepolia Integration", function () {
         encryptedInput.handles[0],
         encryptedInput.handles[1],
         encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.handles[4],
         encryptedInput.inputProof
       );
 
       // Get encrypted data
-      const [encPassport, encBirthYear, encCountryCode] = await secureKYC.getUserKYCData(user1Address);
+      const [encPassport, encDateOfBirth, encCountryCode, encDocumentType] = await secureKYC.getUserKYCData(user1Address);
 
       // Decrypt the data to verify it matches what we submitted
       const decryptedPassport = await fhevm.userDecryptEuint(
@@ -131,9 +188,9 @@ describe("SecureKYC - Sepolia Integration", function () {
         user1
       );
       
-      const decryptedBirthYear = await fhevm.userDecryptEuint(
+      const decryptedDateOfBirth = await fhevm.userDecryptEuint(
         FhevmType.euint32,
-        encBirthYear,
+        encDateOfBirth,
         await secureKYC.getAddress(),
         user1
       );
@@ -146,29 +203,34 @@ describe("SecureKYC - Sepolia Integration", function () {
       );
 
       expect(decryptedPassport).to.equal(passportHash);
-      expect(decryptedBirthYear).to.equal(birthYear);
+      expect(decryptedDateOfBirth).to.equal(dateOfBirth);
       expect(decryptedCountryCode).to.equal(countryCode);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, encDocumentType, await secureKYC.getAddress(), user1)
+      ).to.equal(1n);
       
       console.log("✓ Decryption successful:");
       console.log("  Passport hash:", decryptedPassport.toString());
-      console.log("  Birth year:", decryptedBirthYear.toString());
+      console.log("  Date of birth:", decryptedDateOfBirth.toString());
       console.log("  Country code:", decryptedCountryCode.toString());
     });
 
     it("Should handle eligibility with multiple countries on Sepolia", async function () {
       // Authorize verifier and submit KYC
-      await secureKYC.connect(admin).setAuthorizedVerifier(verifierAddress, true);
+      await secureKYC.connect(admin).grantRole(VERIFIER_ROLE, verifierAddress);
 
       const passportHash = BigInt(ethers.keccak256(ethers.toUtf8Bytes("MULTI_COUNTRY_TEST")));
-      const birthYear = 1985n;
+      const dateOfBirth = 19850720n;
       const countryCode = 3n; // UK
 
       const input = fhevm.createEncryptedInput(
         await secureKYC.getAddress(),
         user1Address
       );
+      input.add8(1n); // passport
       input.add256(passportHash);
-      input.add32(birthYear);
+      input.add32(21000101n); // document expiry
+      input.add32(dateOfBirth);
       input.add8(countryCode);
 
       const encryptedInput = await input.encrypt();
@@ -177,25 +239,32 @@ describe("SecureKYC - Sepolia Integration", function () {
         encryptedInput.handles[0],
         encryptedInput.handles[1],
         encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.handles[4],
         encryptedInput.inputProof
       );
 
-      await secureKYC.connect(verifier).verifyKYC(user1Address);
+      await verifyKYC(secureKYC, verifier, user1Address, ethers.toBeHex(passportHash, 32), KYCTier.Enhanced);
 
       // Set project requirements allowing UK (country code 3)
-      const projectId = ethers.id("UKProject");
-      await secureKYC.connect(verifier).setProjectRequirements(
-        projectId,
+      await secureKYC.connect(admin).setProjectRequirements(
+        projectAddress,
         25, // minAge (user born 1985, should be ~39 years old)
-        [3, 4, 5], // allowedCountries: UK and others
-        true // requiresPassport
+        countryMask([3, 4, 5]), // allowedCountries: UK and others
+        PASSPORT_ONLY, // acceptedDocumentTypes
+        0, // maxVerificationAge: global default
+        KYCTier.None, // minTier: any tier
+        false, // requireAccredited: not required
+        0, // minIncomeBand: any band
+        0 // maxRiskScore: no limit
       );
 
       // Check eligibility and generate proof
-      await secureKYC.connect(user1).checkEligibility(user1Address, projectId);
-      await secureKYC.connect(user1).generateProof(projectId);
+      await secureKYC.connect(user1).grantConsent(projectAddress, 0);
+      await secureKYC.connect(project).checkEligibility(user1Address);
+      await secureKYC.connect(user1).generateProof(projectAddress);
 
-      const hasProof = await secureKYC.hasProjectProof(user1Address, projectId);
+      const hasProof = await secureKYC.hasProjectProof(user1Address, projectAddress);
       expect(hasProof).to.be.true;
       console.log("✓ Multi-country eligibility check successful");
     });
@@ -203,19 +272,21 @@ describe("SecureKYC - Sepolia Integration", function () {
 
   describe("Gas Usage Analysis", function () {
     it("Should measure gas costs for key operations", async function () {
-      await secureKYC.connect(admin).setAuthorizedVerifier(verifierAddress, true);
+      await secureKYC.connect(admin).grantRole(VERIFIER_ROLE, verifierAddress);
 
       // Measure KYC submission gas
       const passportHash = BigInt(ethers.keccak256(ethers.toUtf8Bytes("GAS_TEST_PASSPORT")));
-      const birthYear = 1990n;
+      const dateOfBirth = 19900415n;
       const countryCode = 1n;
 
       const input = fhevm.createEncryptedInput(
         await secureKYC.getAddress(),
         user1Address
       );
+      input.add8(1n); // passport
       input.add256(passportHash);
-      input.add32(birthYear);
+      input.add32(21000101n); // document expiry
+      input.add32(dateOfBirth);
       input.add8(countryCode);
 
       const encryptedInput = await input.encrypt();
@@ -224,29 +295,41 @@ describe("SecureKYC - Sepolia Integration", function () {
         encryptedInput.handles[0],
         encryptedInput.handles[1],
         encryptedInput.handles[2],
+        encryptedInput.handles[3],
+        encryptedInput.handles[4],
         encryptedInput.inputProof
       );
       const submitReceipt = await submitTx.wait();
       console.log("Gas used for KYC submission:", submitReceipt?.gasUsed.toString());
 
       // Measure KYC verification gas
-      const verifyTx = await secureKYC.connect(verifier).verifyKYC(user1Address);
+      const verifyTx = await verifyKYC(
+        secureKYC,
+        verifier,
+        user1Address,
+        ethers.toBeHex(passportHash, 32),
+        KYCTier.Enhanced
+      );
       const verifyReceipt = await verifyTx.wait();
       console.log("Gas used for KYC verification:", verifyReceipt?.gasUsed.toString());
 
       // Measure project requirements setting gas
-      const projectId = ethers.id("GasTestProject");
-      const requirementsTx = await secureKYC.connect(verifier).setProjectRequirements(
-        projectId,
+      const requirementsTx = await secureKYC.connect(admin).setProjectRequirements(
+        projectAddress,
         21,
-        [1, 2, 3],
-        true
+        countryMask([1, 2, 3]),
+        PASSPORT_ONLY,
+        0,
+        KYCTier.None,
+        false,
+        0,
+        0
       );
       const requirementsReceipt = await requirementsTx.wait();
       console.log("Gas used for setting project requirements:", requirementsReceipt?.gasUsed.toString());
 
       // Measure proof generation gas
-      const proofTx = await secureKYC.connect(user1).generateProof(projectId);
+      const proofTx = await secureKYC.connect(user1).generateProof(projectAddress);
       const proofReceipt = await proofTx.wait();
       console.log("Gas used for proof generation:", proofReceipt?.gasUsed.toString());
     });